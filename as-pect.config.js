@@ -17,6 +17,8 @@ module.exports = {
     /** To enable wat file output, use the following flag. The filename is ignored, but required by the compiler. */
     // "--textFile": ["output.wat"],
     "--runtime": ["stub"], // Acceptable values are: full, half, stub (arena), and none,
+    /** Generates Codec methods for @msgpack classes. */
+    "--transform": ["./transform/index.js"],
     "--baseDir": process.cwd(),
   },
   /** Output the binary wasm file: [testname].spec.wasm */
@@ -0,0 +1,147 @@
+import {
+  DecodeError,
+  DecodeErrorKind,
+  Decoder,
+  Encoder,
+  SafeDecoder,
+  Sizer,
+  VALUE_MAX_DEPTH,
+  Writer,
+} from "..";
+
+function writeMap(writer: Writer, m: Map<string, i32>): void {
+  writer.writeMap(
+    m,
+    (writer: Writer, key: string): void => {
+      writer.writeString(key);
+    },
+    (writer: Writer, value: i32): void => {
+      writer.writeInt32(value);
+    }
+  );
+}
+
+function errorKind(err: Error): DecodeErrorKind {
+  assert(err instanceof DecodeError);
+  return changetype<DecodeError>(err).kind;
+}
+
+function encode(m: Map<string, i32>, canonical: bool): ArrayBuffer {
+  const sizer = new Sizer();
+  writeMap(sizer, m);
+  const buffer = new ArrayBuffer(sizer.length);
+  writeMap(new Encoder(buffer, false, canonical), m);
+  return buffer;
+}
+
+function forward(): Map<string, i32> {
+  const m = new Map<string, i32>();
+  m.set("a", 1);
+  m.set("bb", 2);
+  m.set("c", 3);
+  return m;
+}
+
+function backward(): Map<string, i32> {
+  const m = new Map<string, i32>();
+  m.set("c", 3);
+  m.set("bb", 2);
+  m.set("a", 1);
+  return m;
+}
+
+describe("Canonical", () => {
+  it("sorts map keys by their encoded bytes", () => {
+    const a = encode(forward(), true);
+    const b = encode(backward(), true);
+    expect(a).toStrictEqual(b);
+    expect(new SafeDecoder(a).checkCanonical().isOk).toBeTruthy();
+
+    const decoder = new Decoder(a);
+    expect(decoder.readMapSize()).toBe(3);
+    // fixstr "a" and "c" sort before fixstr "bb" because the header encodes the length
+    expect(decoder.readString()).toBe("a");
+    expect(decoder.readInt32()).toBe(1);
+    expect(decoder.readString()).toBe("c");
+  });
+
+  it("rejects unsorted map keys", () => {
+    const buffer = encode(backward(), false);
+    const result = new SafeDecoder(buffer).checkCanonical();
+    expect(result.isErr).toBeTruthy();
+    expect(errorKind(result.unwrapErr())).toBe(DecodeErrorKind.NonCanonical);
+  });
+
+  it("rejects integers wider than necessary", () => {
+    // uint16 holding 5, which fits in a positive fixint
+    const bytes = new Uint8Array(3);
+    bytes[0] = 0xcd;
+    bytes[2] = 5;
+    const buffer = bytes.buffer;
+    expect(new SafeDecoder(buffer).checkCanonical().isErr).toBeTruthy();
+  });
+
+  it("writes NaN as the quiet NaN", () => {
+    const buffer = new ArrayBuffer(9);
+    new Encoder(buffer, false, true).writeFloat64(reinterpret<f64>(0x7ff0000000000001));
+    expect(new SafeDecoder(buffer).checkCanonical().isOk).toBeTruthy();
+
+    const raw = new ArrayBuffer(9);
+    new Encoder(raw).writeFloat64(reinterpret<f64>(0x7ff0000000000001));
+    expect(new SafeDecoder(raw).checkCanonical().isErr).toBeTruthy();
+  });
+
+  it("rejects truncated and oversized payloads", () => {
+    // str32 claiming 2^32-1 bytes followed by "ab"
+    const huge = new Uint8Array(7);
+    huge[0] = 0xdb;
+    huge[1] = 0xff;
+    huge[2] = 0xff;
+    huge[3] = 0xff;
+    huge[4] = 0xff;
+    huge[5] = 0x61;
+    huge[6] = 0x62;
+    const decoder = new SafeDecoder(huge.buffer);
+    const result = decoder.checkCanonical();
+    expect(result.isErr).toBeTruthy();
+    expect(errorKind(result.unwrapErr())).toBe(DecodeErrorKind.Truncated);
+    expect(decoder.position).toBe(5);
+
+    // uint32 with two of its four bytes
+    const short = new Uint8Array(3);
+    short[0] = 0xce;
+    expect(errorKind(new SafeDecoder(short.buffer).checkCanonical().unwrapErr()))
+      .toBe(DecodeErrorKind.Truncated);
+
+    // ext8 of 3 bytes with only the type present
+    const ext = new Uint8Array(3);
+    ext[0] = 0xc7;
+    ext[1] = 3;
+    expect(errorKind(new SafeDecoder(ext.buffer).checkCanonical().unwrapErr()))
+      .toBe(DecodeErrorKind.Truncated);
+  });
+
+  it("rejects trailing bytes", () => {
+    const bytes = new Uint8Array(2);
+    bytes[0] = 0x01;
+    bytes[1] = 0x02;
+    const result = new SafeDecoder(bytes.buffer).checkCanonical();
+    expect(result.isErr).toBeTruthy();
+    expect(errorKind(result.unwrapErr())).toBe(DecodeErrorKind.NonCanonical);
+  });
+
+  it("limits nesting depth", () => {
+    const depth: i32 = 100000;
+    const bytes = new Uint8Array(depth + 1);
+    for (let i = 0; i < depth; i++) {
+      bytes[i] = 0x91; // fixarray of one
+    }
+    bytes[depth] = 0xc0;
+    const result = new SafeDecoder(bytes.buffer).checkCanonical();
+    expect(result.isErr).toBeTruthy();
+    expect(errorKind(result.unwrapErr())).toBe(DecodeErrorKind.LimitExceeded);
+
+    const shallow = bytes.buffer.slice(depth - <i32>VALUE_MAX_DEPTH);
+    expect(new SafeDecoder(shallow).checkCanonical().isOk).toBeTruthy();
+  });
+});
@@ -0,0 +1,73 @@
+import { CoercionPolicy, DecoderOptions, Encoder, SafeDecoder } from "..";
+
+function decoder(buffer: ArrayBuffer, coercion: CoercionPolicy): SafeDecoder {
+  const options = new DecoderOptions();
+  options.coercion = coercion;
+  return new SafeDecoder(buffer, options);
+}
+
+function uint(value: u64): ArrayBuffer {
+  const encoder = Encoder.growable();
+  encoder.writeUInt64(value);
+  return encoder.toArrayBuffer();
+}
+
+function int(value: i64): ArrayBuffer {
+  const encoder = Encoder.growable();
+  encoder.writeInt64(value);
+  return encoder.toArrayBuffer();
+}
+
+function float(value: f64): ArrayBuffer {
+  const encoder = Encoder.growable();
+  encoder.writeFloat64(value);
+  return encoder.toArrayBuffer();
+}
+
+function str(value: string): ArrayBuffer {
+  const encoder = Encoder.growable();
+  encoder.writeString(value);
+  return encoder.toArrayBuffer();
+}
+
+describe("CoercionPolicy", () => {
+  it("keeps the current behavior by default", () => {
+    expect(decoder(uint(300), CoercionPolicy.Default).readInt64().unwrap()).toBe(300);
+    expect(decoder(int(-300), CoercionPolicy.Default).readFloat64().isErr).toBeTruthy();
+    expect(decoder(float(2.0), CoercionPolicy.Default).readInt64().isErr).toBeTruthy();
+    expect(decoder(uint(1), CoercionPolicy.Default).readBool().isErr).toBeTruthy();
+  });
+
+  it("accepts only the exact signedness family when strict", () => {
+    expect(decoder(uint(300), CoercionPolicy.Strict).readInt64().isErr).toBeTruthy();
+    expect(decoder(int(-300), CoercionPolicy.Strict).readInt64().unwrap()).toBe(-300);
+    expect(decoder(uint(5), CoercionPolicy.Strict).readInt64().unwrap()).toBe(5);
+    expect(decoder(uint(300), CoercionPolicy.Strict).readUInt64().unwrap()).toBe(300);
+
+    const signed = Encoder.growable();
+    signed.writeInt16(300);
+    expect(decoder(signed.toArrayBuffer(), CoercionPolicy.Strict).readUInt64().isErr).toBeTruthy();
+  });
+
+  it("converts between ints, floats, strings and bools when lenient", () => {
+    expect(decoder(int(-300), CoercionPolicy.Lenient).readFloat64().unwrap()).toBe(-300.0);
+    expect(decoder(uint(7), CoercionPolicy.Lenient).readFloat32().unwrap()).toBe(<f32>7.0);
+    expect(decoder(float(2.0), CoercionPolicy.Lenient).readInt32().unwrap()).toBe(2);
+    expect(decoder(float(2.5), CoercionPolicy.Lenient).readInt64().isErr).toBeTruthy();
+    expect(decoder(float(-1.0), CoercionPolicy.Lenient).readUInt64().isErr).toBeTruthy();
+    expect(decoder(float(1e300), CoercionPolicy.Lenient).readInt64().isErr).toBeTruthy();
+
+    expect(decoder(str("-9223372036854775808"), CoercionPolicy.Lenient).readInt64().unwrap()).toBe(i64.MIN_VALUE);
+    expect(decoder(str("18446744073709551615"), CoercionPolicy.Lenient).readUInt64().unwrap()).toBe(u64.MAX_VALUE);
+    expect(decoder(str("18446744073709551616"), CoercionPolicy.Lenient).readUInt64().isErr).toBeTruthy();
+    expect(decoder(str("9223372036854775808"), CoercionPolicy.Lenient).readInt64().isErr).toBeTruthy();
+    expect(decoder(str("12a"), CoercionPolicy.Lenient).readInt64().isErr).toBeTruthy();
+    expect(decoder(str("-1.5e3"), CoercionPolicy.Lenient).readFloat64().unwrap()).toBe(-1500.0);
+    expect(decoder(str("1e"), CoercionPolicy.Lenient).readFloat64().isErr).toBeTruthy();
+    expect(decoder(str("300"), CoercionPolicy.Lenient).readUInt8().isErr).toBeTruthy();
+
+    expect(decoder(uint(1), CoercionPolicy.Lenient).readBool().unwrap()).toBe(true);
+    expect(decoder(uint(0), CoercionPolicy.Lenient).readBool().unwrap()).toBe(false);
+    expect(decoder(uint(2), CoercionPolicy.Lenient).readBool().isErr).toBeTruthy();
+  });
+});
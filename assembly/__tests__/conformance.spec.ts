@@ -0,0 +1,43 @@
+import { DecoderOptions, Encoder, SafeDecoder, Sizer } from "..";
+
+function strict(buffer: ArrayBuffer): SafeDecoder {
+  const options = new DecoderOptions();
+  options.strictPrefixes = true;
+  return new SafeDecoder(buffer, options);
+}
+
+function bytes(b0: u8, b1: u8): ArrayBuffer {
+  const array = new Uint8Array(2);
+  array[0] = b0;
+  array[1] = b1;
+  return array.buffer;
+}
+
+describe("strictPrefixes", () => {
+  it("round-trips an empty bin as a zero-length bin", () => {
+    const sizer = new Sizer();
+    sizer.writeByteArray(new ArrayBuffer(0));
+    expect(sizer.length).toBe(2);
+
+    const buffer = new ArrayBuffer(sizer.length);
+    new Encoder(buffer).writeByteArray(new ArrayBuffer(0));
+    expect(load<u8>(changetype<usize>(buffer))).toBe(0xc4);
+    expect(strict(buffer).readByteArray().unwrap().byteLength).toBe(0);
+    expect(new SafeDecoder(buffer).readByteArray().unwrap().byteLength).toBe(0);
+  });
+
+  it("rejects prefixes outside the spec", () => {
+    const fixarray = bytes(0x91, 0x61);
+    expect(new SafeDecoder(fixarray).readString().unwrap()).toBe("a");
+    expect(strict(fixarray).readString().isErr).toBeTruthy();
+    expect(new SafeDecoder(fixarray).readBinLength().unwrap()).toBe(1);
+    expect(strict(fixarray).readBinLength().isErr).toBeTruthy();
+
+    const nil = bytes(0xc0, 0xc0);
+    expect(new SafeDecoder(nil).readBinLength().unwrap()).toBe(0);
+    expect(strict(nil).readBinLength().isErr).toBeTruthy();
+    expect(new SafeDecoder(nil).readArraySize().unwrap()).toBe(0);
+    expect(strict(nil).readArraySize().isErr).toBeTruthy();
+    expect(strict(nil).readNullableArray<bool>((decoder) => decoder.readBool()).unwrap()).toBeNull();
+  });
+});
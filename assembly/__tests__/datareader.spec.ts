@@ -0,0 +1,36 @@
+import { DataReader } from "..";
+
+describe("DataReader", () => {
+  it("writes exactly two bytes in setUint16", () => {
+    const buffer = new ArrayBuffer(4);
+    const bytes = Uint8Array.wrap(buffer);
+    bytes.fill(0xff);
+    const writer = new DataReader(buffer, 0, 2);
+    writer.setUint16(0x1234);
+    expect(bytes[0]).toBe(0x12);
+    expect(bytes[1]).toBe(0x34);
+    expect(bytes[2]).toBe(0xff);
+    expect(bytes[3]).toBe(0xff);
+  });
+
+  it("does not peek past the end", () => {
+    const buffer = new ArrayBuffer(2);
+    const reader = new DataReader(buffer, 0, 1);
+    expect(reader.peekUint8()).toBe(0);
+    expect(() => {
+      new DataReader(new ArrayBuffer(2), 0, 0).peekUint8();
+    }).toThrow();
+  });
+
+  it("rejects negative lengths", () => {
+    expect(() => {
+      new DataReader(new ArrayBuffer(4)).getBytes(-1);
+    }).toThrow();
+    expect(() => {
+      new DataReader(new ArrayBuffer(4)).getBytesView(-1);
+    }).toThrow();
+    expect(() => {
+      new DataReader(new ArrayBuffer(4)).discard(-1);
+    }).toThrow();
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  DecodeError,
+  DecodeErrorKind,
+  Decoder,
+  DecoderOptions,
+  Encoder,
+  Format,
+  Result,
+  SafeDecoder,
+} from "..";
+
+function order(): ArrayBuffer {
+  const encoder = Encoder.growable();
+  encoder.writeMapSize(1);
+  encoder.writeString("orders");
+  encoder.writeArraySize(2);
+  encoder.writeFloat64(9.5);
+  encoder.writeString("oops");
+  return encoder.toArrayBuffer();
+}
+
+function decodeError(err: Error): DecodeError {
+  assert(err instanceof DecodeError);
+  return changetype<DecodeError>(err);
+}
+
+describe("DecodeError", () => {
+  it("reports kind, offset, formats and field path", () => {
+    const decoder = new SafeDecoder(order());
+    expect(decoder.readMapSize().unwrap()).toBe(1);
+    expect(decoder.readString().unwrap()).toBe("orders");
+    decoder.pushField("orders");
+    expect(decoder.readArraySize().unwrap()).toBe(2);
+    decoder.pushIndex(0);
+    decoder.pushField("price");
+    expect(decoder.readFloat64().unwrap()).toBe(9.5);
+    decoder.popField();
+    decoder.popField();
+    decoder.pushIndex(1);
+    decoder.pushField("price");
+
+    const err = decodeError(decoder.readFloat64().unwrapErr());
+    expect(err.kind).toBe(DecodeErrorKind.TypeMismatch);
+    expect(err.offset).toBe(18);
+    expect(err.expected).toBe(Format.FLOAT64);
+    expect(err.actual).toBe(Format.FIXSTR);
+    expect(err.path).toBe("orders[1].price");
+    expect(err.message.endsWith(" at offset 18 in orders[1].price")).toBeTruthy();
+  });
+
+  it("carries the kind, offset and path into the text Decoder throws", () => {
+    const decoder = new SafeDecoder(order());
+    decoder.readMapSize();
+    decoder.readString();
+    decoder.pushField("orders");
+    decoder.pushIndex(3);
+    decoder.pushField("price");
+    const err = decoder.readInt32().unwrapErr();
+    expect(err.toString()).toBe(
+      "DecodeError (type mismatch): bad prefix for int: prefix = 0x92; type = unknown at offset 8 in orders[3].price"
+    );
+
+    expect(() => {
+      Result.err<i32>(new Error("boom")).unwrap();
+    }).toThrow();
+    expect(() => {
+      new Decoder(order()).readInt32();
+    }).toThrow();
+  });
+
+  it("distinguishes overflow and underflow", () => {
+    const encoder = Encoder.growable();
+    encoder.writeInt64(300);
+    encoder.writeInt64(-1);
+    const decoder = new SafeDecoder(encoder.toArrayBuffer());
+
+    const overflow = decodeError(decoder.readInt8().unwrapErr());
+    expect(overflow.kind).toBe(DecodeErrorKind.Overflow);
+    expect(overflow.expected).toBe(Format.INT8);
+    expect(overflow.actual).toBe(Format.INT16);
+    expect(overflow.path).toBe("");
+
+    const underflow = decodeError(decoder.readUInt32().unwrapErr());
+    expect(underflow.kind).toBe(DecodeErrorKind.Underflow);
+    expect(underflow.offset).toBe(3);
+  });
+
+  it("reports truncation", () => {
+    const bytes = new Uint8Array(3);
+    bytes[0] = 0xdc; // array16 missing its length
+    bytes[1] = 0x00;
+    expect(decodeError(new SafeDecoder(bytes.buffer.slice(0, 2)).skip().unwrapErr()).kind)
+      .toBe(DecodeErrorKind.Truncated);
+
+    const float = new Uint8Array(2);
+    float[0] = 0xcb; // float64 with one of its eight bytes
+    const short = new SafeDecoder(float.buffer);
+    const err = decodeError(short.readFloat64().unwrapErr());
+    expect(err.kind).toBe(DecodeErrorKind.Truncated);
+    expect(err.offset).toBe(0);
+    expect(short.position).toBe(0);
+
+    const str = new Uint8Array(2);
+    str[0] = 0xa5; // fixstr of five bytes with one present
+    str[1] = 0x61;
+    expect(decodeError(new SafeDecoder(str.buffer).readString().unwrapErr()).kind)
+      .toBe(DecodeErrorKind.Truncated);
+
+    const empty = new SafeDecoder(new ArrayBuffer(0));
+    expect(decodeError(empty.readInt32().unwrapErr()).kind).toBe(DecodeErrorKind.Truncated);
+    expect(decodeError(empty.readArraySize().unwrapErr()).kind).toBe(DecodeErrorKind.Truncated);
+    expect(decodeError(empty.readValue().unwrapErr()).kind).toBe(DecodeErrorKind.Truncated);
+    expect(empty.isNextNil()).toBe(false);
+  });
+
+  it("reports a wrong prefix as a type mismatch", () => {
+    const wrongPrefix = decodeError(new SafeDecoder(order()).readString().unwrapErr());
+    expect(wrongPrefix.kind).toBe(DecodeErrorKind.TypeMismatch);
+    expect(wrongPrefix.expected).toBe(Format.STR32);
+    expect(wrongPrefix.actual).toBe(Format.FIXMAP);
+    expect(decodeError(new SafeDecoder(order()).readArraySize().unwrapErr()).kind)
+      .toBe(DecodeErrorKind.TypeMismatch);
+  });
+
+  it("reports limits", () => {
+    const options = new DecoderOptions();
+    options.maxStringLength = 2;
+    const lengths = Encoder.growable();
+    lengths.writeString("abc");
+    const exceeded = decodeError(new SafeDecoder(lengths.toArrayBuffer(), options).readString().unwrapErr());
+    expect(exceeded.kind).toBe(DecodeErrorKind.LimitExceeded);
+
+    const collections = new DecoderOptions();
+    collections.maxCollectionLength = 1;
+    const decoder = new SafeDecoder(order(), collections);
+    expect(decoder.readMapSize().unwrap()).toBe(1);
+    expect(decoder.readString().unwrap()).toBe("orders");
+    expect(decodeError(decoder.readArraySize().unwrapErr()).kind).toBe(DecodeErrorKind.LimitExceeded);
+  });
+
+  it("reports invalid UTF-8", () => {
+    const str = new Uint8Array(3);
+    str[0] = 0xa2;
+    str[1] = 0xc3;
+    str[2] = 0x28;
+    const checked = new DecoderOptions();
+    checked.checkUtf8 = true;
+    expect(decodeError(new SafeDecoder(str.buffer, checked).readString().unwrapErr()).kind)
+      .toBe(DecodeErrorKind.InvalidUtf8);
+    expect(new SafeDecoder(str.buffer).readString().isOk).toBeTruthy();
+  });
+});
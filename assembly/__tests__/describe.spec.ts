@@ -0,0 +1,62 @@
+import { describe as describeBuffer, Encoder, Sizer, Writer } from "..";
+
+function writeSample(writer: Writer): void {
+  writer.writeMapSize(2);
+  writer.writeString("id");
+  writer.writeUInt16(300);
+  writer.writeString("tags");
+  writer.writeArraySize(2);
+  writer.writeInt8(-3);
+  writer.writeNil();
+}
+
+function sample(): ArrayBuffer {
+  const sizer = new Sizer();
+  writeSample(sizer);
+  const buffer = new ArrayBuffer(sizer.length);
+  writeSample(new Encoder(buffer));
+  return buffer;
+}
+
+describe("describe", () => {
+  it("prints one indented line per token", () => {
+    expect(describeBuffer(sample())).toBe(
+      [
+        "000000  82                        fixmap(2)",
+        "000001  a2 69 64                    fixstr(2) \"id\"",
+        "000004  cd 01 2c                    uint16 300",
+        "000007  a4 74 61 67 73              fixstr(4) \"tags\"",
+        "00000c  92                          fixarray(2)",
+        "00000d  fd                            negative_fixint -3",
+        "00000e  c0                            nil",
+      ].join("\n")
+    );
+  });
+
+  it("reports truncated input", () => {
+    const buffer = sample().slice(0, 6);
+    const lines = describeBuffer(buffer).split("\n");
+    expect(lines.length).toBe(3);
+    expect(lines[2]).toBe(
+      "000004  cd                          error: truncated uint16, needs 2 byte(s), 1 available"
+    );
+  });
+
+  it("reports invalid prefixes", () => {
+    const bytes = new Uint8Array(1);
+    bytes[0] = 0xc1;
+    expect(describeBuffer(bytes.buffer)).toBe(
+      "000000  c1                        error: invalid prefix 0xc1"
+    );
+  });
+
+  it("counts the entries of a map32 without overflowing", () => {
+    // map32 declaring 2^31 entries and holding none
+    const bytes = new Uint8Array(5);
+    bytes[0] = 0xdf;
+    bytes[1] = 0x80;
+    const lines = describeBuffer(bytes.buffer).split("\n");
+    expect(lines.length).toBe(2);
+    expect(lines[1]).toBe("error: truncated, 4294967296 more object(s) expected");
+  });
+});
@@ -0,0 +1,160 @@
+import {
+  Decoder,
+  Encoder,
+  ExtensionRegistry,
+  SafeDecoder,
+  Sizer,
+  Writer,
+} from "..";
+
+class Money {
+  constructor(public cents: i64) {}
+}
+
+class GeoPoint {
+  constructor(public lat: f64, public lng: f64) {}
+}
+
+function encodeMoney(value: Money): ArrayBuffer {
+  const buffer = new ArrayBuffer(8);
+  store<i64>(changetype<usize>(buffer), value.cents);
+  return buffer;
+}
+
+function decodeMoney(data: ArrayBuffer): Money {
+  return new Money(load<i64>(changetype<usize>(data)));
+}
+
+function encodeGeoPoint(value: GeoPoint): ArrayBuffer {
+  const buffer = new ArrayBuffer(16);
+  store<f64>(changetype<usize>(buffer), value.lat);
+  store<f64>(changetype<usize>(buffer), value.lng, 8);
+  return buffer;
+}
+
+function decodeGeoPoint(data: ArrayBuffer): GeoPoint {
+  return new GeoPoint(
+    load<f64>(changetype<usize>(data)),
+    load<f64>(changetype<usize>(data), 8)
+  );
+}
+
+function writeRegistered(writer: Writer, registry: ExtensionRegistry): void {
+  writer.writeArraySize(2);
+  writer.writeExtValue(registry, new Money(1999));
+  writer.writeExtValue(registry, new GeoPoint(52.5, 13.4));
+}
+
+function extBuffer(type: i8, length: i32): ArrayBuffer {
+  const data = new ArrayBuffer(length);
+  const bytes = Uint8Array.wrap(data);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = <u8>i;
+  }
+  const sizer = new Sizer();
+  sizer.writeExt(type, data);
+  const buffer = new ArrayBuffer(sizer.length);
+  const encoder = new Encoder(buffer);
+  encoder.writeExt(type, data);
+  return buffer;
+}
+
+function roundTrip(type: i8, length: i32, expectedPrefix: u8): void {
+  const buffer = extBuffer(type, length);
+  expect(load<u8>(changetype<usize>(buffer))).toBe(expectedPrefix);
+
+  const decoder = new Decoder(buffer);
+  const ext = decoder.readExt();
+  expect(ext.type).toBe(type);
+  expect(ext.data.byteLength).toBe(length);
+  const bytes = Uint8Array.wrap(ext.data);
+  let matches = true;
+  for (let i = 0; i < length; i++) {
+    matches = matches && bytes[i] == <u8>i;
+  }
+  expect(matches).toBeTruthy();
+}
+
+describe("Ext", () => {
+  it("uses fixext formats for fixed lengths", () => {
+    roundTrip(1, 1, 0xd4);
+    roundTrip(2, 2, 0xd5);
+    roundTrip(3, 4, 0xd6);
+    roundTrip(4, 8, 0xd7);
+    roundTrip(5, 16, 0xd8);
+  });
+
+  it("uses ext8, ext16 and ext32 for other lengths", () => {
+    roundTrip(-5, 3, 0xc7);
+    roundTrip(127, 0, 0xc7);
+    roundTrip(42, 300, 0xc8);
+    roundTrip(42, 70000, 0xc9);
+  });
+
+  it("reads the header without the payload", () => {
+    const decoder = new Decoder(extBuffer(7, 20));
+    const header = decoder.readExtHeader();
+    expect(header.type).toBe(7);
+    expect(header.length).toBe(20);
+  });
+
+  it("skips ext values", () => {
+    const sizer = new Sizer();
+    writeSkippable(sizer);
+    const buffer = new ArrayBuffer(sizer.length);
+    writeSkippable(new Encoder(buffer));
+
+    const decoder = new Decoder(buffer);
+    expect(decoder.readArraySize()).toBe(4);
+    decoder.skip();
+    decoder.skip();
+    decoder.skip();
+    expect(decoder.readString()).toBe("end");
+  });
+
+  it("returns an error for a non-ext prefix", () => {
+    const buffer = new ArrayBuffer(1);
+    new Encoder(buffer).writeNil();
+    const result = new SafeDecoder(buffer).readExt();
+    expect(result.isErr).toBeTruthy();
+  });
+});
+
+function writeSkippable(writer: Writer): void {
+  writer.writeArraySize(4);
+  writer.writeExt(1, new ArrayBuffer(4));
+  writer.writeExt(2, new ArrayBuffer(10));
+  writer.writeExt(3, new ArrayBuffer(1000));
+  writer.writeString("end");
+}
+
+describe("ExtensionRegistry", () => {
+  it("encodes and decodes registered classes", () => {
+    const registry = new ExtensionRegistry();
+    registry.register<Money>(1, encodeMoney, decodeMoney);
+    registry.register<GeoPoint>(2, encodeGeoPoint, decodeGeoPoint);
+
+    const sizer = new Sizer();
+    writeRegistered(sizer, registry);
+    const buffer = new ArrayBuffer(sizer.length);
+    writeRegistered(new Encoder(buffer), registry);
+
+    const decoder = new Decoder(buffer);
+    expect(decoder.readArraySize()).toBe(2);
+    expect(decoder.readExtValue<Money>(registry).cents).toBe(1999);
+    const point = decoder.readExtValue<GeoPoint>(registry);
+    expect(point.lat).toBe(52.5);
+    expect(point.lng).toBe(13.4);
+  });
+
+  it("returns an error for an unregistered or mismatched type", () => {
+    const registry = new ExtensionRegistry();
+    registry.register<Money>(1, encodeMoney, decodeMoney);
+
+    const buffer = extBuffer(9, 8);
+    expect(new SafeDecoder(buffer).readExtValue<Money>(registry).isErr).toBeTruthy();
+
+    const moneyBuffer = extBuffer(1, 8);
+    expect(new SafeDecoder(moneyBuffer).readExtValue<GeoPoint>(registry).isErr).toBeTruthy();
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  Decoder,
+  Encoder,
+  Sizer,
+  Writer,
+  fromJSON,
+  fromJSONSafe,
+  toJSON,
+  toJSONSafe,
+} from "..";
+
+function writeSample(writer: Writer): void {
+  writer.writeMapSize(9);
+  writer.writeString("nil");
+  writer.writeNil();
+  writer.writeString("bool");
+  writer.writeBool(false);
+  writer.writeString("int");
+  writer.writeInt32(-42);
+  writer.writeString("big");
+  writer.writeUInt64(u64.MAX_VALUE);
+  writer.writeString("float");
+  writer.writeFloat64(1.5);
+  writer.writeString("nan");
+  writer.writeFloat64(NaN);
+  writer.writeString("str");
+  writer.writeString('say "hi"\n');
+  writer.writeString("bin");
+  const bin = new Uint8Array(4);
+  bin[0] = 0xde;
+  bin[1] = 0xad;
+  bin[2] = 0xbe;
+  bin[3] = 0xef;
+  writer.writeByteArray(bin.buffer);
+  writer.writeInt32(7);
+  writer.writeArraySize(2);
+  writer.writeExt(3, bin.buffer.slice(0, 2));
+  writer.writeArraySize(0);
+}
+
+describe("JSON", () => {
+  it("converts MessagePack to JSON", () => {
+    const sizer = new Sizer();
+    writeSample(sizer);
+    const buffer = new ArrayBuffer(sizer.length);
+    writeSample(new Encoder(buffer));
+
+    expect(toJSON(buffer)).toBe(
+      '{"nil":null,"bool":false,"int":-42,"big":"18446744073709551615",' +
+        '"float":1.5,"nan":null,"str":"say \\"hi\\"\\n","bin":"3q2+7w==",' +
+        '"7":[{"type":3,"data":"3q0="},[]]}'
+    );
+  });
+
+  it("converts JSON to MessagePack", () => {
+    const buffer = fromJSON(
+      ' { "a" : [1, -2, 3.25, "x\\u00e9\\"", true, null, {}, [] ], "b": 1e2 } '
+    );
+    const decoder = new Decoder(buffer);
+    expect(decoder.readMapSize()).toBe(2);
+    expect(decoder.readString()).toBe("a");
+    expect(decoder.readArraySize()).toBe(8);
+    expect(decoder.readUInt8()).toBe(1);
+    expect(decoder.readInt8()).toBe(-2);
+    expect(decoder.readFloat64()).toBe(3.25);
+    expect(decoder.readString()).toBe('xé"');
+    expect(decoder.readBool()).toBe(true);
+    expect(decoder.isNextNil()).toBe(true);
+    expect(decoder.readMapSize()).toBe(0);
+    expect(decoder.readArraySize()).toBe(0);
+    expect(decoder.readString()).toBe("b");
+    expect(decoder.readFloat64()).toBe(100);
+  });
+
+  it("round trips JSON text", () => {
+    const json = '{"list":[1,"two",{"three":[-3]}],"empty":"","n":-9007199254740992}';
+    expect(toJSON(fromJSON(json))).toBe(json);
+  });
+
+  it("throws on invalid JSON", () => {
+    expect(() => {
+      fromJSON('{"a":1,}');
+    }).toThrow();
+    expect(() => {
+      fromJSON("[1] 2");
+    }).toThrow();
+  });
+
+  it("counts elements next to nested containers and strings", () => {
+    const json = '["[,]",{"a":[1,2],"b":{}},[[],3],4]';
+    const decoder = new Decoder(fromJSON(json));
+    expect(decoder.readArraySize()).toBe(4);
+    expect(decoder.readString()).toBe("[,]");
+    expect(decoder.readMapSize()).toBe(2);
+    expect(toJSON(fromJSON(json))).toBe(json);
+  });
+
+  it("reports malformed input as an error", () => {
+    expect(fromJSONSafe('{"a":1,}').isErr).toBeTruthy();
+    expect(fromJSONSafe('["a]').isErr).toBeTruthy();
+    expect(fromJSONSafe("").unwrapErr().message).toBe(
+      "invalid JSON: unexpected end of input at position 0"
+    );
+
+    // array of two elements holding only one
+    const truncated = new Uint8Array(2);
+    truncated[0] = 0x92;
+    truncated[1] = 0x01;
+    expect(toJSONSafe(truncated.buffer).isErr).toBeTruthy();
+
+    // 0xc1 is never used
+    const invalid = new Uint8Array(1);
+    invalid[0] = 0xc1;
+    expect(toJSONSafe(invalid.buffer).isErr).toBeTruthy();
+  });
+
+  it("limits nesting depth", () => {
+    expect(fromJSONSafe("[[1]]", 2).isOk).toBeTruthy();
+    expect(fromJSONSafe("[[[1]]]", 2).unwrapErr().message).toBe(
+      "invalid JSON: limit exceeded: depth = 3; max = 2 at position 2"
+    );
+
+    const buffer = fromJSON("[[[1]]]");
+    expect(toJSONSafe(buffer, 3).unwrap()).toBe("[[[1]]]");
+    expect(toJSONSafe(buffer, 2).isErr).toBeTruthy();
+  });
+});
@@ -0,0 +1,69 @@
+import { Decoder, DecoderOptions, Encoder, SafeDecoder, Sizer, Writer } from "..";
+
+function writeNested(writer: Writer): void {
+  writer.writeArraySize(1);
+  writer.writeArraySize(1);
+  writer.writeArraySize(1);
+  writer.writeString("deep");
+}
+
+function nested(): ArrayBuffer {
+  const sizer = new Sizer();
+  writeNested(sizer);
+  const buffer = new ArrayBuffer(sizer.length);
+  writeNested(new Encoder(buffer));
+  return buffer;
+}
+
+function strings(): ArrayBuffer {
+  const encoder = Encoder.growable();
+  encoder.writeArraySize(2);
+  encoder.writeString("0123456789");
+  encoder.writeString("0123456789");
+  return encoder.toArrayBuffer();
+}
+
+describe("DecoderOptions", () => {
+  it("limits nesting depth", () => {
+    const options = new DecoderOptions();
+    options.maxDepth = 3;
+    expect(new SafeDecoder(nested(), options).readValue().isOk).toBeTruthy();
+
+    options.maxDepth = 2;
+    expect(new SafeDecoder(nested(), options).readValue().isErr).toBeTruthy();
+    expect(() => {
+      const options = new DecoderOptions();
+      options.maxDepth = 2;
+      new Decoder(nested(), options).skip();
+    }).toThrow();
+  });
+
+  it("limits collection length before allocating", () => {
+    const bytes = new Uint8Array(5);
+    bytes[0] = 0xdd; // array32 with 2^32-1 elements
+    bytes[1] = 0xff;
+    bytes[2] = 0xff;
+    bytes[3] = 0xff;
+    bytes[4] = 0xff;
+    const options = new DecoderOptions();
+    options.maxCollectionLength = 1000;
+    expect(new SafeDecoder(bytes.buffer, options).readArraySize().isErr).toBeTruthy();
+  });
+
+  it("limits string length", () => {
+    const options = new DecoderOptions();
+    options.maxStringLength = 5;
+    const decoder = new SafeDecoder(strings(), options);
+    expect(decoder.readArraySize().unwrap()).toBe(2);
+    expect(decoder.readString().isErr).toBeTruthy();
+  });
+
+  it("limits total allocated bytes", () => {
+    const options = new DecoderOptions();
+    options.maxTotalBytes = 35;
+    const decoder = new SafeDecoder(strings(), options);
+    expect(decoder.readArraySize().unwrap()).toBe(2);
+    expect(decoder.readString().unwrap()).toBe("0123456789");
+    expect(decoder.readString().isErr).toBeTruthy();
+  });
+});
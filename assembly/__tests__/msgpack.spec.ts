@@ -238,4 +238,25 @@ describe("CodecCheck", () => {
     output.fromBuffer(input.toBuffer());
     expect(output).toStrictEqual(input);
   });
+
+  it("encodes in a single pass with a growable encoder", () => {
+    const input = new CodecTest();
+    input.init();
+    const encoder = Encoder.growable(1);
+    input.encode(encoder);
+    const buffer = encoder.toArrayBuffer();
+    expect(buffer.byteLength).toBe(encoder.length);
+    expect(buffer).toStrictEqual(input.toBuffer());
+
+    const output = new CodecTest();
+    output.fromBuffer(buffer);
+    expect(output).toStrictEqual(input);
+  });
+
+  it("throws when a fixed size encoder runs out of space", () => {
+    expect(() => {
+      const encoder = new Encoder(new ArrayBuffer(2));
+      encoder.writeString("too long");
+    }).toThrow();
+  });
 });
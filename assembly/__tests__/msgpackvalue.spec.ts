@@ -0,0 +1,98 @@
+import {
+  DecodeError,
+  DecodeErrorKind,
+  Decoder,
+  Encoder,
+  Kind,
+  MsgPackArray,
+  MsgPackBin,
+  MsgPackBool,
+  MsgPackExt,
+  MsgPackFloat,
+  MsgPackInt,
+  MsgPackMap,
+  MsgPackNil,
+  MsgPackStr,
+  MsgPackUInt,
+  MsgPackValue,
+  SafeDecoder,
+  Sizer,
+  VALUE_MAX_DEPTH,
+} from "..";
+
+function deeplyNested(depth: i32): ArrayBuffer {
+  const encoder = Encoder.growable(depth + 1);
+  for (let i = 0; i < depth; i++) {
+    encoder.writeArraySize(1);
+  }
+  encoder.writeNil();
+  return encoder.toArrayBuffer();
+}
+
+function encode(value: MsgPackValue): ArrayBuffer {
+  const sizer = new Sizer();
+  sizer.writeValue(value);
+  const buffer = new ArrayBuffer(sizer.length);
+  new Encoder(buffer).writeValue(value);
+  return buffer;
+}
+
+function sample(): MsgPackMap {
+  const m = new MsgPackMap();
+  m.set(new MsgPackStr("nil"), new MsgPackNil());
+  m.set(new MsgPackStr("bool"), new MsgPackBool(true));
+  m.set(new MsgPackStr("int"), new MsgPackInt(-1000));
+  m.set(new MsgPackStr("uint"), new MsgPackUInt(u64.MAX_VALUE));
+  m.set(new MsgPackStr("f32"), new MsgPackFloat(1.5, true));
+  m.set(new MsgPackStr("f64"), new MsgPackFloat(0.1));
+  m.set(new MsgPackStr("bin"), new MsgPackBin(new ArrayBuffer(3)));
+  m.set(new MsgPackStr("ext"), new MsgPackExt(5, new ArrayBuffer(2)));
+  const items = new Array<MsgPackValue>();
+  items.push(new MsgPackUInt(1));
+  items.push(new MsgPackStr("two"));
+  m.set(new MsgPackStr("array"), new MsgPackArray(items));
+  m.set(new MsgPackInt(-7), new MsgPackStr("non-string key"));
+  return m;
+}
+
+describe("MsgPackValue", () => {
+  it("round trips a value tree", () => {
+    const buffer = encode(sample());
+    const value = new Decoder(buffer).readValue();
+    expect(value.kind).toBe(Kind.Map);
+
+    const m = <MsgPackMap>value;
+    expect(m.size).toBe(10);
+    expect(m.get("nil")!.isNil).toBeTruthy();
+    expect((<MsgPackBool>m.get("bool")).value).toBe(true);
+    expect((<MsgPackInt>m.get("int")).value).toBe(-1000);
+    expect((<MsgPackUInt>m.get("uint")).value).toBe(u64.MAX_VALUE);
+    expect((<MsgPackFloat>m.get("f32")).single).toBe(true);
+    expect((<MsgPackFloat>m.get("f64")).value).toBe(0.1);
+    expect((<MsgPackBin>m.get("bin")).value.byteLength).toBe(3);
+    expect((<MsgPackExt>m.get("ext")).type).toBe(5);
+    const array = <MsgPackArray>m.get("array");
+    expect(array.length).toBe(2);
+    expect((<MsgPackStr>array.items[1]).value).toBe("two");
+    expect(m.get("missing")).toBeNull();
+
+    // re-encoding the decoded tree yields the same bytes
+    expect(encode(value)).toStrictEqual(buffer);
+  });
+
+  it("returns an error for an invalid prefix", () => {
+    const bytes = new Uint8Array(1);
+    bytes[0] = 0xc1;
+    expect(new SafeDecoder(bytes.buffer).readValue().isErr).toBeTruthy();
+  });
+
+  it("limits the nesting of value trees", () => {
+    expect(new SafeDecoder(deeplyNested(<i32>VALUE_MAX_DEPTH)).readValue().isOk).toBeTruthy();
+
+    const result = new SafeDecoder(deeplyNested(10000)).readValue();
+    expect(result.isErr).toBeTruthy();
+    const err = result.unwrapErr();
+    assert(err instanceof DecodeError);
+    expect(changetype<DecodeError>(err).kind).toBe(DecodeErrorKind.LimitExceeded);
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  DecodeError,
+  DecodeErrorKind,
+  Decoder,
+  Encoder,
+  Format,
+  Kind,
+  SafeDecoder,
+} from "..";
+
+function values(): ArrayBuffer {
+  const encoder = Encoder.growable();
+  encoder.writeString("id-42");
+  encoder.writeInt64(-42);
+  encoder.writeUInt32(70000);
+  encoder.writeArraySize(300);
+  return encoder.toArrayBuffer();
+}
+
+describe("peek", () => {
+  it("classifies the next value without consuming it", () => {
+    const decoder = new Decoder(values());
+    expect(decoder.peekFormat()).toBe(Format.FIXSTR);
+    expect(decoder.peekKind()).toBe(Kind.Str);
+    expect(decoder.peekLength()).toBe(5);
+    expect(decoder.position).toBe(0);
+    expect(decoder.readString()).toBe("id-42");
+
+    expect(decoder.peekKind()).toBe(Kind.Int);
+    expect(decoder.readInt64()).toBe(-42);
+    expect(decoder.peekKind()).toBe(Kind.UInt);
+    expect(decoder.peekFormat()).toBe(Format.UINT32);
+    expect(decoder.readUInt32()).toBe(70000);
+
+    expect(decoder.peekKind()).toBe(Kind.Array);
+    expect(decoder.peekLength()).toBe(300);
+    expect(decoder.readArraySize()).toBe(300);
+  });
+
+  it("reports values without a length", () => {
+    const encoder = Encoder.growable();
+    encoder.writeBool(true);
+    const decoder = new SafeDecoder(encoder.toArrayBuffer());
+    expect(decoder.peekKind().unwrap()).toBe(Kind.Bool);
+    expect(decoder.peekLength().isErr).toBeTruthy();
+    expect(decoder.readBool().unwrap()).toBe(true);
+    expect(decoder.peekKind().isErr).toBeTruthy();
+  });
+
+  it("reports truncation at the end of the buffer", () => {
+    const decoder = new SafeDecoder(new ArrayBuffer(0));
+    const format = decoder.peekFormat();
+    expect(format.isErr).toBeTruthy();
+    const err = format.unwrapErr();
+    assert(err instanceof DecodeError);
+    expect(changetype<DecodeError>(err).kind).toBe(DecodeErrorKind.Truncated);
+    expect(decoder.peekKind().isErr).toBeTruthy();
+    expect(decoder.peekLength().isErr).toBeTruthy();
+  });
+});
@@ -0,0 +1,65 @@
+import { Decoder, Encoder, SafeEncoder, Sizer, Writer } from "..";
+
+// cached is a sub-document encoded ahead of time: {"id": 7}
+function cached(): ArrayBuffer {
+  const encoder = Encoder.growable();
+  encoder.writeMapSize(1);
+  encoder.writeString("id");
+  encoder.writeUInt32(7);
+  return encoder.toArrayBuffer();
+}
+
+function twoObjects(): ArrayBuffer {
+  const encoder = Encoder.growable();
+  encoder.writeNil();
+  encoder.writeNil();
+  return encoder.toArrayBuffer();
+}
+
+function writeEnvelope(writer: Writer, payload: ArrayBuffer): void {
+  writer.writeArraySize(2);
+  writer.writeString("event");
+  writer.writeRaw(payload);
+}
+
+describe("writeRaw", () => {
+  it("splices an encoded fragment into a message", () => {
+    const payload = cached();
+    const sizer = new Sizer();
+    writeEnvelope(sizer, payload);
+    const buffer = new ArrayBuffer(sizer.length);
+    writeEnvelope(new Encoder(buffer), payload);
+
+    const decoder = new Decoder(buffer);
+    expect(decoder.readArraySize()).toBe(2);
+    expect(decoder.readString()).toBe("event");
+    expect(decoder.readMapSize()).toBe(1);
+    expect(decoder.readString()).toBe("id");
+    expect(decoder.readUInt32()).toBe(7);
+    expect(decoder.hasMore()).toBe(false);
+  });
+
+  it("checks fragments in the validating variant", () => {
+    const encoder = Encoder.growable();
+    encoder.writeRawChecked(cached());
+    expect(encoder.length).toBe(5);
+    expect(() => {
+      Encoder.growable().writeRawChecked(twoObjects());
+    }).toThrow();
+    expect(() => {
+      Encoder.growable().writeRawChecked(new ArrayBuffer(0));
+    }).toThrow();
+  });
+
+  it("records invalid fragments in SafeEncoder", () => {
+    const encoder = new SafeEncoder(new ArrayBuffer(16));
+    encoder.writeRawChecked(twoObjects());
+    expect(encoder.error).not.toBeNull();
+    expect(encoder.bytesWritten).toBe(0);
+
+    const small = new SafeEncoder(new ArrayBuffer(2));
+    small.writeRaw(cached());
+    expect(small.error).not.toBeNull();
+    expect(small.bytesWritten).toBe(0);
+  });
+});
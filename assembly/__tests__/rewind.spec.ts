@@ -0,0 +1,66 @@
+import { Decoder, DecoderOptions, Encoder, Result, SafeDecoder } from "..";
+
+function versioned(): ArrayBuffer {
+  const encoder = Encoder.growable();
+  encoder.writeArraySize(2);
+  encoder.writeString("v2");
+  encoder.writeString("name");
+  return encoder.toArrayBuffer();
+}
+
+// readV1 expects [version: int, name: str]
+function readV1(decoder: SafeDecoder): Result<string> {
+  const size = decoder.readArraySize();
+  if (size.isErr) {
+    return Result.err<string>(size.unwrapErr());
+  }
+  const version = decoder.readInt32();
+  if (version.isErr) {
+    return Result.err<string>(version.unwrapErr());
+  }
+  return decoder.readString();
+}
+
+// readV2 expects [version: str, name: str]
+function readV2(decoder: SafeDecoder): Result<string> {
+  const size = decoder.readArraySize();
+  if (size.isErr) {
+    return Result.err<string>(size.unwrapErr());
+  }
+  const version = decoder.readString();
+  if (version.isErr) {
+    return Result.err<string>(version.unwrapErr());
+  }
+  return decoder.readString();
+}
+
+describe("mark and reset", () => {
+  it("rewinds to a mark", () => {
+    const decoder = new Decoder(versioned());
+    const mark = decoder.mark();
+    expect(decoder.readArraySize()).toBe(2);
+    expect(decoder.readString()).toBe("v2");
+    decoder.reset(mark);
+    expect(decoder.position).toBe(0);
+    expect(decoder.readArraySize()).toBe(2);
+    expect(new SafeDecoder(versioned()).reset(100).isErr).toBeTruthy();
+  });
+
+  it("falls back to another shape with tryRead", () => {
+    const decoder = new Decoder(versioned());
+    const v1 = decoder.tryRead(readV1);
+    expect(v1.isErr).toBeTruthy();
+    expect(decoder.position).toBe(0);
+    expect(decoder.tryRead(readV2).unwrap()).toBe("name");
+    expect(decoder.hasMore()).toBeFalsy();
+  });
+
+  it("refunds the bytes charged by a failed attempt", () => {
+    // readV2 alone charges 16 bytes for the array and 6 for the strings
+    const options = new DecoderOptions();
+    options.maxTotalBytes = 22;
+    const decoder = new SafeDecoder(versioned(), options);
+    expect(decoder.tryRead(readV1).isErr).toBeTruthy();
+    expect(decoder.tryRead(readV2).unwrap()).toBe("name");
+  });
+});
@@ -0,0 +1,74 @@
+import { Codec, Decoder, SafeEncoder, Writer, toArrayBufferSafe } from "..";
+
+class Point implements Codec {
+  x: i32 = 3;
+  y: i32 = 300;
+  label: string = "origin";
+
+  decode(decoder: Decoder): void {
+    decoder.readArraySize();
+    this.x = decoder.readInt32();
+    this.y = decoder.readInt32();
+    this.label = decoder.readString();
+  }
+
+  encode(writer: Writer): void {
+    writer.writeArraySize(3);
+    writer.writeInt32(this.x);
+    writer.writeInt32(this.y);
+    writer.writeString(this.label);
+  }
+}
+
+class Stamp implements Codec {
+  nanos: u32 = 1000000000;
+
+  decode(decoder: Decoder): void {
+    this.nanos = decoder.readTimestamp().nanoseconds;
+  }
+
+  encode(writer: Writer): void {
+    writer.writeTimestamp(0, this.nanos);
+  }
+}
+
+describe("SafeEncoder", () => {
+  it("records the first write that does not fit", () => {
+    const encoder = new SafeEncoder(new ArrayBuffer(6));
+    new Point().encode(encoder);
+    expect(encoder.error).not.toBeNull();
+    expect(encoder.bytesWritten).toBe(5);
+
+    encoder.writeNil();
+    expect(encoder.bytesWritten).toBe(5);
+  });
+
+  it("records invalid values", () => {
+    const encoder = new SafeEncoder(new ArrayBuffer(32));
+    encoder.writeTimestamp(0, 1000000000);
+    expect(encoder.error).not.toBeNull();
+    expect(encoder.bytesWritten).toBe(0);
+  });
+
+  it("encodes codecs without throwing", () => {
+    const buffer = toArrayBufferSafe(new Point()).unwrap();
+    expect(buffer.byteLength).toBe(12);
+    const point = new Point();
+    point.x = 0;
+    point.decode(new Decoder(buffer));
+    expect(point.x).toBe(3);
+    expect(point.y).toBe(300);
+    expect(point.label).toBe("origin");
+  });
+
+  it("reports invalid writes found while sizing", () => {
+    const result = toArrayBufferSafe(new Stamp());
+    expect(result.isErr).toBeTruthy();
+    expect(result.unwrapErr().message).toBe("invalid timestamp: nanoseconds = 1000000000");
+
+    const sizer = SafeEncoder.measuring();
+    new Point().encode(sizer);
+    expect(sizer.error).toBeNull();
+    expect(sizer.bytesWritten).toBe(12);
+  });
+});
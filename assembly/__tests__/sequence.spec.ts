@@ -0,0 +1,79 @@
+import {
+  Decoder,
+  DecoderOptions,
+  Encoder,
+  MessageSequenceReader,
+  MsgPackStr,
+  SafeDecoder,
+} from "..";
+
+function batch(): ArrayBuffer {
+  const encoder = Encoder.growable();
+  encoder.writeUInt8(0xff); // padding before the batch
+  encoder.writeArraySize(2);
+  encoder.writeString("a");
+  encoder.writeInt32(1);
+  encoder.writeString("second");
+  encoder.writeMapSize(1);
+  encoder.writeString("k");
+  encoder.writeBool(true);
+  return encoder.toArrayBuffer();
+}
+
+describe("MessageSequenceReader", () => {
+  it("yields concatenated messages", () => {
+    const buffer = batch();
+    const reader = new MessageSequenceReader(buffer, null, 2);
+    expect(reader.hasNext()).toBeTruthy();
+
+    const first = reader.next().unwrap();
+    expect(first.byteOffset).toBe(2);
+    expect(first.byteLength).toBe(4);
+
+    const value = reader.nextValue().unwrap();
+    expect((value as MsgPackStr).value).toBe("second");
+
+    const decoder = reader.nextDecoder().unwrap();
+    expect(decoder.readMapSize()).toBe(1);
+    expect(decoder.readString()).toBe("k");
+    expect(decoder.readBool()).toBe(true);
+    expect(decoder.hasMore()).toBeFalsy();
+    expect(reader.hasNext()).toBeFalsy();
+  });
+
+  it("reports truncated trailing messages", () => {
+    const buffer = batch();
+    const reader = MessageSequenceReader.range(buffer, 2, buffer.byteLength - 3);
+    expect(reader.next().isOk).toBeTruthy();
+    expect(reader.next().isOk).toBeTruthy();
+    expect(reader.next().isErr).toBeTruthy();
+  });
+});
+
+describe("Decoder ranges", () => {
+  it("decodes a sub-range and reports its position", () => {
+    const buffer = batch();
+    const decoder = SafeDecoder.range(buffer, 2, 4);
+    expect(decoder.position).toBe(0);
+    expect(decoder.remaining).toBe(4);
+    expect(decoder.readArraySize().unwrap()).toBe(2);
+    expect(decoder.readString().unwrap()).toBe("a");
+    expect(decoder.position).toBe(3);
+    expect(decoder.readInt32().unwrap()).toBe(1);
+    expect(decoder.remaining).toBe(0);
+    expect(decoder.hasMore()).toBeFalsy();
+
+    const whole = Decoder.range(buffer, 2);
+    whole.skip();
+    expect(whole.readString()).toBe("second");
+    expect(whole.position).toBe(11);
+  });
+
+  it("accepts options after the range", () => {
+    const options = new DecoderOptions();
+    options.maxStringLength = 1;
+    const decoder = SafeDecoder.range(batch(), 6, 7, options);
+    expect(decoder.readString().isErr).toBeTruthy();
+    expect(Decoder.range(batch(), 6, 7).readString()).toBe("second");
+  });
+});
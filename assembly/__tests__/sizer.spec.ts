@@ -0,0 +1,18 @@
+import { Encoder, Sizer } from "..";
+
+function binHeaderLength(length: u32): i32 {
+  const encoder = Encoder.growable();
+  encoder.writeBinLength(length);
+  return encoder.length;
+}
+
+describe("Sizer", () => {
+  it("counts the prefix byte of bin headers", () => {
+    const lengths: u32[] = [0, 255, 256, 65535, 65536];
+    for (let i = 0; i < lengths.length; i++) {
+      const sizer = new Sizer();
+      sizer.writeBinLength(lengths[i]);
+      expect(sizer.length).toBe(binHeaderLength(lengths[i]));
+    }
+  });
+});
@@ -0,0 +1,56 @@
+import { Encoder, SafeDecoder } from "..";
+
+function deeplyNested(depth: i32): ArrayBuffer {
+  const encoder = Encoder.growable(depth + 8);
+  for (let i = 0; i < depth; i++) {
+    encoder.writeArraySize(1);
+  }
+  encoder.writeNil();
+  encoder.writeString("after");
+  return encoder.toArrayBuffer();
+}
+
+function header(prefix: u8): ArrayBuffer {
+  const bytes = new Uint8Array(5);
+  bytes[0] = prefix; // 32-bit length of 2^32-1
+  bytes[1] = 0xff;
+  bytes[2] = 0xff;
+  bytes[3] = 0xff;
+  bytes[4] = 0xff;
+  return bytes.buffer;
+}
+
+describe("skip", () => {
+  it("skips deeply nested arrays without recursion", () => {
+    const decoder = new SafeDecoder(deeplyNested(100000));
+    expect(decoder.skip().isOk).toBeTruthy();
+    expect(decoder.readString().unwrap()).toBe("after");
+  });
+
+  it("skips maps, strings and ext values", () => {
+    const encoder = Encoder.growable();
+    encoder.writeMapSize(2);
+    encoder.writeString("a");
+    encoder.writeArraySize(2);
+    encoder.writeInt64(-300);
+    encoder.writeFloat64(1.5);
+    encoder.writeString("b");
+    encoder.writeExt(5, new ArrayBuffer(3));
+    encoder.writeBool(true);
+    const decoder = new SafeDecoder(encoder.toArrayBuffer());
+    expect(decoder.skip().isOk).toBeTruthy();
+    expect(decoder.readBool().unwrap()).toBe(true);
+  });
+
+  it("reports truncated 32-bit lengths as errors", () => {
+    expect(new SafeDecoder(header(0xdb)).skip().isErr).toBeTruthy(); // str32
+    expect(new SafeDecoder(header(0xc6)).skip().isErr).toBeTruthy(); // bin32
+    expect(new SafeDecoder(header(0xc9)).skip().isErr).toBeTruthy(); // ext32
+    expect(new SafeDecoder(header(0xdd)).skip().isErr).toBeTruthy(); // array32
+    expect(new SafeDecoder(header(0xdf)).skip().isErr).toBeTruthy(); // map32
+  });
+
+  it("counts map32 entries without overflow", () => {
+    expect(new SafeDecoder(header(0xdf)).getSize().unwrap()).toBe(<u64>0x1fffffffe);
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  DecoderOptions,
+  Encoder,
+  MsgPackMap,
+  MsgPackStr,
+  StreamingDecoder,
+  StreamStatus,
+} from "..";
+
+function messages(): ArrayBuffer {
+  const encoder = Encoder.growable();
+  encoder.writeMapSize(2);
+  encoder.writeString("name");
+  encoder.writeString("a fairly long string value that spans several chunks");
+  encoder.writeString("tags");
+  encoder.writeArraySize(2);
+  encoder.writeInt32(1);
+  encoder.writeFloat64(2.5);
+  encoder.writeString("second");
+  return encoder.toArrayBuffer();
+}
+
+function chunk(buffer: ArrayBuffer, start: i32, end: i32): ArrayBuffer {
+  return buffer.slice(start, end);
+}
+
+describe("StreamingDecoder", () => {
+  it("completes objects split across chunks", () => {
+    const buffer = messages();
+    const stream = new StreamingDecoder();
+    expect(stream.next()).toBe(StreamStatus.NeedMoreData);
+
+    let ready = 0;
+    let firstLength = 0;
+    for (let i = 0; i < buffer.byteLength; i += 3) {
+      stream.feed(chunk(buffer, i, min(i + 3, buffer.byteLength)));
+      let status = stream.next();
+      while (status == StreamStatus.Ready) {
+        ready++;
+        if (ready == 1) {
+          firstLength = stream.object.byteLength;
+          const value = stream.value().unwrap() as MsgPackMap;
+          expect(value.size).toBe(2);
+          expect((value.get("name") as MsgPackStr).value.length).toBe(52);
+        } else {
+          expect((stream.value().unwrap() as MsgPackStr).value).toBe("second");
+        }
+        status = stream.next();
+      }
+      expect(status).toBe(StreamStatus.NeedMoreData);
+    }
+    expect(ready).toBe(2);
+    expect(firstLength).toBe(buffer.byteLength - 7);
+    expect(stream.buffered).toBe(0);
+  });
+
+  it("emits several objects from one chunk", () => {
+    const stream = new StreamingDecoder();
+    stream.feed(messages());
+    expect(stream.next()).toBe(StreamStatus.Ready);
+    expect(stream.next()).toBe(StreamStatus.Ready);
+    expect(stream.object.byteLength).toBe(7);
+    expect(stream.next()).toBe(StreamStatus.NeedMoreData);
+  });
+
+  it("fails on malformed input and depth limits", () => {
+    const bytes = new Uint8Array(1);
+    bytes[0] = 0xc1;
+    const stream = new StreamingDecoder();
+    stream.feed(bytes.buffer);
+    expect(stream.next()).toBe(StreamStatus.Failed);
+    expect(stream.error).not.toBeNull();
+    expect(stream.next()).toBe(StreamStatus.Failed);
+
+    const options = new DecoderOptions();
+    options.maxDepth = 1;
+    const limited = new StreamingDecoder(options);
+    limited.feed(messages());
+    expect(limited.next()).toBe(StreamStatus.Failed);
+  });
+
+  it("returns an error for values nested too deep to build", () => {
+    const depth: i32 = 10000;
+    const bytes = new Uint8Array(depth + 1);
+    for (let i = 0; i < depth; i++) {
+      bytes[i] = 0x91; // fixarray of one
+    }
+    bytes[depth] = 0xc0;
+    const stream = new StreamingDecoder();
+    stream.feed(bytes.buffer);
+    expect(stream.next()).toBe(StreamStatus.Ready);
+    expect(stream.value().isErr).toBeTruthy();
+  });
+});
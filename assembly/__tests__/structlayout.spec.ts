@@ -0,0 +1,130 @@
+import { Codec, Decoder, Encoder, SafeDecoder, Sizer, Writer, toArrayBuffer } from "..";
+
+// Sample is the first version of a telemetry record.
+class Sample implements Codec {
+  id: u32 = 0;
+  value: f64 = 0;
+
+  decode(decoder: Decoder): void {
+    const count = decoder.readStructAsArray();
+    if (count > 0) this.id = decoder.readUInt32();
+    if (count > 1) this.value = decoder.readFloat64();
+    decoder.skipTrailingFields(count, 2);
+  }
+
+  encode(writer: Writer): void {
+    writer.writeStructAsArray(2);
+    writer.writeUInt32(this.id);
+    writer.writeFloat64(this.value);
+  }
+}
+
+// SampleV2 appends an optional unit to Sample.
+class SampleV2 implements Codec {
+  id: u32 = 0;
+  value: f64 = 0;
+  unit: string = "none";
+
+  decode(decoder: Decoder): void {
+    const count = decoder.readStructAsArray();
+    if (count > 0) this.id = decoder.readUInt32();
+    if (count > 1) this.value = decoder.readFloat64();
+    if (count > 2) this.unit = decoder.readString();
+    decoder.skipTrailingFields(count, 3);
+  }
+
+  encode(writer: Writer): void {
+    writer.writeStructAsArray(3);
+    writer.writeUInt32(this.id);
+    writer.writeFloat64(this.value);
+    writer.writeString(this.unit);
+  }
+}
+
+// Tagged uses the integer-tagged map layout.
+class Tagged implements Codec {
+  id: u32 = 0;
+  name: string = "";
+  extra: bool = false;
+  writeExtra: bool = false;
+
+  decode(decoder: Decoder): void {
+    const size = decoder.readMapSize();
+    for (let i: u32 = 0; i < size; i++) {
+      const tag = decoder.readFieldTag();
+      if (tag == 1) {
+        this.id = decoder.readUInt32();
+      } else if (tag == 2) {
+        this.name = decoder.readString();
+      } else {
+        decoder.skip();
+      }
+    }
+  }
+
+  encode(writer: Writer): void {
+    writer.writeMapSize(this.writeExtra ? 3 : 2);
+    writer.writeFieldTag(1);
+    writer.writeUInt32(this.id);
+    writer.writeFieldTag(2);
+    writer.writeString(this.name);
+    if (this.writeExtra) {
+      writer.writeFieldTag(300);
+      writer.writeBool(true);
+    }
+  }
+}
+
+describe("positional struct layout", () => {
+  it("omits field names", () => {
+    const sample = new Sample();
+    sample.id = 7;
+    const sizer = new Sizer();
+    sample.encode(sizer);
+    expect(sizer.length).toBe(11);
+  });
+
+  it("skips extra trailing fields", () => {
+    const v2 = new SampleV2();
+    v2.id = 7;
+    v2.value = 1.5;
+    v2.unit = "ms";
+    const sample = new Sample();
+    const decoder = new Decoder(toArrayBuffer(v2));
+    sample.decode(decoder);
+    expect(sample.id).toBe(7);
+    expect(sample.value).toBe(1.5);
+    expect(decoder.hasMore()).toBe(false);
+  });
+
+  it("keeps defaults for missing trailing fields", () => {
+    const sample = new Sample();
+    sample.id = 9;
+    const v2 = new SampleV2();
+    v2.decode(new Decoder(toArrayBuffer(sample)));
+    expect(v2.id).toBe(9);
+    expect(v2.unit).toBe("none");
+  });
+});
+
+describe("integer-tagged struct layout", () => {
+  it("round-trips and skips unknown tags", () => {
+    const tagged = new Tagged();
+    tagged.id = 42;
+    tagged.name = "probe";
+    tagged.writeExtra = true;
+    const out = new Tagged();
+    const decoder = new Decoder(toArrayBuffer(tagged));
+    out.decode(decoder);
+    expect(out.id).toBe(42);
+    expect(out.name).toBe("probe");
+    expect(decoder.hasMore()).toBe(false);
+  });
+
+  it("rejects string keys as field tags", () => {
+    const encoder = Encoder.growable();
+    encoder.writeString("id");
+    const decoder = new SafeDecoder(encoder.toArrayBuffer());
+    expect(decoder.readFieldTag().isErr).toBeTruthy();
+  });
+});
@@ -0,0 +1,59 @@
+import { Decoder, Encoder, SafeDecoder, Sizer, Timestamp } from "..";
+
+function timestampBuffer(seconds: i64, nanos: u32): ArrayBuffer {
+  const sizer = new Sizer();
+  sizer.writeTimestamp(seconds, nanos);
+  const buffer = new ArrayBuffer(sizer.length);
+  new Encoder(buffer).writeTimestamp(seconds, nanos);
+  return buffer;
+}
+
+function roundTrip(seconds: i64, nanos: u32, expectedLength: i32): void {
+  const buffer = timestampBuffer(seconds, nanos);
+  expect(buffer.byteLength).toBe(expectedLength);
+  const ts = new Decoder(buffer).readTimestamp();
+  expect(ts.seconds).toBe(seconds);
+  expect(ts.nanoseconds).toBe(nanos);
+}
+
+describe("Timestamp", () => {
+  it("uses timestamp 32 for whole seconds that fit in 32 bits", () => {
+    roundTrip(0, 0, 6);
+    roundTrip(1600000000, 0, 6);
+    roundTrip(<i64>u32.MAX_VALUE, 0, 6);
+  });
+
+  it("uses timestamp 64 for 34-bit seconds or nanoseconds", () => {
+    roundTrip(1600000000, 123456789, 10);
+    roundTrip(<i64>u32.MAX_VALUE + 1, 0, 10);
+    roundTrip((<i64>1 << 34) - 1, 999999999, 10);
+  });
+
+  it("uses timestamp 96 for negative or large seconds", () => {
+    roundTrip(-1, 0, 15);
+    roundTrip(<i64>1 << 34, 5, 15);
+    roundTrip(i64.MIN_VALUE, 999999999, 15);
+  });
+
+  it("encodes and decodes dates", () => {
+    const sizer = new Sizer();
+    const date = new Date(1600000000123);
+    sizer.writeDate(date);
+    const buffer = new ArrayBuffer(sizer.length);
+    new Encoder(buffer).writeDate(date);
+    expect(new Decoder(buffer).readDate().getTime()).toBe(1600000000123);
+  });
+
+  it("converts dates before the epoch", () => {
+    const ts = Timestamp.fromDate(new Date(-1500));
+    expect(ts.seconds).toBe(-2);
+    expect(ts.nanoseconds).toBe(500000000);
+    expect(ts.toDate().getTime()).toBe(-1500);
+  });
+
+  it("returns an error for other ext types", () => {
+    const buffer = new ArrayBuffer(6);
+    new Encoder(buffer).writeExt(1, new ArrayBuffer(4));
+    expect(new SafeDecoder(buffer).readTimestamp().isErr).toBeTruthy();
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  Codec,
+  DecodeError,
+  Decoder,
+  Encoder,
+  SafeDecoder,
+  Sizer,
+  Writer,
+  toArrayBuffer,
+} from "..";
+
+@msgpack
+class Price {
+  amount: f64 = 0;
+  @rename("ccy")
+  currency: string = "";
+}
+
+@msgpack
+class Order {
+  id: u64 = 0;
+  @rename("order_tags")
+  tags: Array<string> = [];
+  prices: Array<Price> = [];
+  attributes: Map<string, i32> = new Map<string, i32>();
+  @optional
+  note: string | null = null;
+  @optional
+  count: i32 = 0;
+  @skip
+  cached: bool = false;
+  parent: Price | null = null;
+}
+
+function sample(): Order {
+  const order = new Order();
+  order.id = 42;
+  order.tags = ["a", "b"];
+  const price = new Price();
+  price.amount = 9.5;
+  price.currency = "EUR";
+  order.prices = [price];
+  order.attributes.set("x", -1);
+  order.cached = true;
+  return order;
+}
+
+function encode(order: Order): ArrayBuffer {
+  const sizer = new Sizer();
+  order.encode(sizer);
+  const buffer = new ArrayBuffer(sizer.length);
+  order.encode(new Encoder(buffer));
+  return buffer;
+}
+
+function writeBadPrice(writer: Writer): void {
+  writer.writeMapSize(2);
+  writer.writeString("amount");
+  writer.writeString("free");
+  writer.writeString("ccy");
+  writer.writeString("EUR");
+}
+
+describe("@msgpack transform", () => {
+  it("round-trips generated codecs", () => {
+    const buffer = encode(sample());
+    const order = Order.fromDecoder(new Decoder(buffer));
+    expect(order.id).toBe(42);
+    expect(order.tags).toStrictEqual(["a", "b"]);
+    expect(order.prices[0].amount).toBe(9.5);
+    expect(order.prices[0].currency).toBe("EUR");
+    expect(order.attributes.get("x")).toBe(-1);
+    expect(order.note).toBeNull();
+    expect(order.cached).toBe(false);
+    expect(order.parent).toBeNull();
+
+    const safe = Order.fromSafeDecoder(new SafeDecoder(buffer)).unwrap();
+    expect(safe.tags).toStrictEqual(["a", "b"]);
+  });
+
+  it("uses renamed keys and leaves out skipped and null optional fields", () => {
+    const decoder = new Decoder(encode(sample()));
+    expect(decoder.readMapSize()).toBe(6);
+    expect(decoder.readString()).toBe("id");
+    decoder.skip();
+    expect(decoder.readString()).toBe("order_tags");
+  });
+
+  it("reports missing fields and field paths", () => {
+    const empty = new Encoder(new ArrayBuffer(1));
+    empty.writeMapSize(0);
+    const missing = Price.fromSafeDecoder(new SafeDecoder(empty.toArrayBuffer()));
+    expect(missing.unwrapErr().message).toBe("missing field: amount");
+    expect(() => {
+      const empty = new Encoder(new ArrayBuffer(1));
+      empty.writeMapSize(0);
+      Price.fromDecoder(new Decoder(empty.toArrayBuffer()));
+    }).toThrow();
+
+    const encoder = Encoder.growable();
+    writeBadPrice(encoder);
+    const err = Price.fromSafeDecoder(new SafeDecoder(encoder.toArrayBuffer())).unwrapErr();
+    expect(err instanceof DecodeError).toBeTruthy();
+    expect(changetype<DecodeError>(err).path).toBe("amount");
+  });
+
+  it("declares generated classes as Codecs", () => {
+    const codec: Codec = sample();
+    expect(toArrayBuffer(codec)).toStrictEqual(encode(sample()));
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  Codec,
+  Decoder,
+  DecoderOptions,
+  Encoder,
+  Writer,
+  decode,
+  encode,
+  fromArrayBuffer,
+  readTyped,
+  toArrayBuffer,
+  writeTyped,
+} from "..";
+
+class Item implements Codec {
+  name: string = "";
+  tags: Map<string, i32> = new Map<string, i32>();
+
+  decode(decoder: Decoder): void {
+    decoder.readArraySize();
+    this.name = decoder.readString();
+    this.tags = readTyped<Map<string, i32>>(decoder);
+  }
+
+  encode(writer: Writer): void {
+    writer.writeArraySize(2);
+    writer.writeString(this.name);
+    writeTyped(writer, this.tags);
+  }
+}
+
+// Node holds a field of its own type, so decoding it recurses once per level.
+class Node implements Codec {
+  child: Node | null = null;
+
+  decode(decoder: Decoder): void {
+    decoder.readArraySize();
+    this.child = readTyped<Node | null>(decoder);
+  }
+
+  encode(writer: Writer): void {
+    writer.writeArraySize(1);
+    writeTyped(writer, this.child);
+  }
+}
+
+function chain(length: i32): Node {
+  const head = new Node();
+  let node = head;
+  for (let i = 1; i < length; i++) {
+    const next = new Node();
+    node.child = next;
+    node = next;
+  }
+  return head;
+}
+
+describe("encode<T>/decode<T>", () => {
+  it("round-trips scalars", () => {
+    expect(decode<i32>(encode<i32>(-300))).toBe(-300);
+    expect(decode<u64>(encode<u64>(u64.MAX_VALUE))).toBe(u64.MAX_VALUE);
+    expect(decode<f32>(encode<f32>(1.5))).toBe(1.5);
+    expect(decode<bool>(encode<bool>(true))).toBe(true);
+    expect(decode<string>(encode<string>("hello"))).toBe("hello");
+    expect(decode<string | null>(encode<string | null>(null))).toBeNull();
+    expect(decode<Array<i32> | null>(encode<Array<i32> | null>(null))).toBeNull();
+    expect(decode<Map<string, i32> | null>(encode<Map<string, i32> | null>(null))).toBeNull();
+    expect(decode<Array<i32> | null>(encode<Array<i32> | null>([7]))![0]).toBe(7);
+  });
+
+  it("encodes integers in their smallest form", () => {
+    const bytes = Uint8Array.wrap(encode<i64>(1));
+    expect(bytes.length).toBe(1);
+    expect(bytes[0]).toBe(1);
+  });
+
+  it("round-trips nested collections", () => {
+    const m = new Map<string, i32>();
+    m.set("a", 1);
+    m.set("b", 2);
+    const list: Array<Map<string, i32>> = [m, new Map<string, i32>()];
+
+    const out = decode<Array<Map<string, i32>>>(encode(list));
+    expect(out.length).toBe(2);
+    expect(out[0].get("a")).toBe(1);
+    expect(out[0].get("b")).toBe(2);
+    expect(out[1].size).toBe(0);
+  });
+
+  it("matches the callback-based writer", () => {
+    const a: Array<i32> = [1, 2, 3];
+    const encoder = Encoder.growable();
+    encoder.writeArray<i32>(a, (writer: Writer, item: i32): void => {
+      writer.writeInt32(item);
+    });
+    expect(encode(a)).toStrictEqual(encoder.toArrayBuffer());
+  });
+
+  it("round-trips Codecs", () => {
+    const item = new Item();
+    item.name = "widget";
+    item.tags.set("size", 3);
+    const items: Array<Item | null> = [item, null];
+
+    const out = decode<Array<Item | null>>(encode(items));
+    expect(out.length).toBe(2);
+    expect(out[0]!.name).toBe("widget");
+    expect(out[0]!.tags.get("size")).toBe(3);
+    expect(out[1]).toBeNull();
+  });
+
+  it("limits the nesting of recursive Codecs", () => {
+    const buffer = encode(chain(4));
+    expect(decode<Node>(buffer).child!.child!.child).not.toBeNull();
+
+    expect(() => {
+      const options = new DecoderOptions();
+      options.maxDepth = 3;
+      decode<Node>(encode(chain(4)), options);
+    }).toThrow();
+  });
+});
+
+describe("fromArrayBuffer", () => {
+  it("decodes a Codec written by toArrayBuffer", () => {
+    const item = new Item();
+    item.name = "gadget";
+    const out = fromArrayBuffer<Item>(toArrayBuffer(item));
+    expect(out.name).toBe("gadget");
+    expect(out.tags.size).toBe(0);
+  });
+});
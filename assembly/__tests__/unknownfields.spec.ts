@@ -0,0 +1,94 @@
+import { Codec, Decoder, Encoder, SafeDecoder, UnknownFields, Writer, toArrayBuffer } from "..";
+
+// userV2 encodes a newer version of User with fields User does not know about.
+function userV2(): ArrayBuffer {
+  const encoder = Encoder.growable();
+  encoder.writeMapSize(3);
+  encoder.writeString("name");
+  encoder.writeString("ada");
+  encoder.writeString("roles");
+  encoder.writeArraySize(2);
+  encoder.writeString("admin");
+  encoder.writeMapSize(1);
+  encoder.writeString("scope");
+  encoder.writeUInt8(3);
+  encoder.writeString("active");
+  encoder.writeBool(true);
+  return encoder.toArrayBuffer();
+}
+
+class User implements Codec {
+  name: string = "";
+  unknown: UnknownFields = new UnknownFields();
+
+  decode(decoder: Decoder): void {
+    const size = decoder.readMapSize();
+    for (let i: u32 = 0; i < size; i++) {
+      const mark = decoder.mark();
+      const key = decoder.readString();
+      if (key == "name") {
+        this.name = decoder.readString();
+      } else {
+        decoder.reset(mark);
+        this.unknown.read(decoder);
+      }
+    }
+  }
+
+  encode(writer: Writer): void {
+    writer.writeMapSize(1 + this.unknown.size);
+    writer.writeString("name");
+    writer.writeString(this.name);
+    this.unknown.encode(writer);
+  }
+}
+
+describe("readRaw", () => {
+  it("captures the exact bytes of the next object", () => {
+    const decoder = new Decoder(userV2());
+    decoder.readMapSize();
+    decoder.skip();
+    decoder.skip();
+    decoder.skip();
+    const raw = Uint8Array.wrap(decoder.readRaw());
+    expect(raw.length).toBe(15);
+    expect(raw[0]).toBe(0x92);
+    expect(decoder.readString()).toBe("active");
+  });
+
+  it("fails on a truncated object", () => {
+    const bytes = new Uint8Array(2);
+    bytes[0] = 0x92;
+    bytes[1] = 0x01;
+    expect(new SafeDecoder(bytes.buffer).readRaw().isErr).toBeTruthy();
+  });
+});
+
+describe("UnknownFields", () => {
+  it("passes unknown fields through a round trip", () => {
+    const input = userV2();
+    const user = new User();
+    user.decode(new Decoder(input));
+    expect(user.name).toBe("ada");
+    expect(user.unknown.size).toBe(2);
+
+    user.name = "grace";
+    const decoder = new Decoder(toArrayBuffer(user));
+    expect(decoder.readMapSize()).toBe(3);
+    expect(decoder.readString()).toBe("name");
+    expect(decoder.readString()).toBe("grace");
+    expect(decoder.readString()).toBe("roles");
+    expect(decoder.readArraySize()).toBe(2);
+    decoder.skip();
+    decoder.skip();
+    expect(decoder.readString()).toBe("active");
+    expect(decoder.readBool()).toBe(true);
+  });
+
+  it("re-encodes unchanged messages byte for byte", () => {
+    const input = userV2();
+    const user = new User();
+    user.decode(new Decoder(input));
+    expect(toArrayBuffer(user)).toStrictEqual(input);
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  Encoder,
+  Sizer,
+  ValidateOptions,
+  ValidationError,
+  Writer,
+  validate,
+} from "..";
+
+function writeSample(writer: Writer): void {
+  writer.writeMapSize(2);
+  writer.writeString("name");
+  writer.writeString("héllo");
+  writer.writeString("list");
+  writer.writeArraySize(3);
+  writer.writeUInt32(70000);
+  writer.writeExt(1, new ArrayBuffer(3));
+  writer.writeByteArray(new ArrayBuffer(300));
+}
+
+function sample(): ArrayBuffer {
+  const sizer = new Sizer();
+  writeSample(sizer);
+  const buffer = new ArrayBuffer(sizer.length);
+  writeSample(new Encoder(buffer));
+  return buffer;
+}
+
+function concat(a: ArrayBuffer, b: ArrayBuffer): ArrayBuffer {
+  const out = new ArrayBuffer(a.byteLength + b.byteLength);
+  memory.copy(changetype<usize>(out), changetype<usize>(a), a.byteLength);
+  memory.copy(changetype<usize>(out) + a.byteLength, changetype<usize>(b), b.byteLength);
+  return out;
+}
+
+function errorOffset(buffer: ArrayBuffer): u32 {
+  const result = validate(buffer);
+  expect(result.isErr).toBeTruthy();
+  return (<ValidationError>result.unwrapErr()).offset;
+}
+
+describe("validate", () => {
+  it("accepts a single well-formed object", () => {
+    expect(validate(sample()).unwrap()).toBe(1);
+  });
+
+  it("counts concatenated objects when multiple is set", () => {
+    const options = new ValidateOptions();
+    options.multiple = true;
+    const buffer = concat(sample(), sample());
+    expect(validate(buffer, options).unwrap()).toBe(2);
+    expect(errorOffset(buffer)).toBe(sample().byteLength);
+  });
+
+  it("reports truncated payloads", () => {
+    const full = sample();
+    expect(errorOffset(full.slice(0, full.byteLength - 1))).toBe(<u32>full.byteLength - 303);
+    expect(errorOffset(full.slice(0, 12))).toBe(6);
+  });
+
+  it("reports the reserved prefix", () => {
+    const bytes = new Uint8Array(2);
+    bytes[0] = 0x91;
+    bytes[1] = 0xc1;
+    expect(errorOffset(bytes.buffer)).toBe(1);
+  });
+
+  it("reports invalid UTF-8", () => {
+    const bytes = new Uint8Array(4);
+    bytes[0] = 0xa3;
+    bytes[1] = 0x61;
+    bytes[2] = 0xc0; // overlong encoding
+    bytes[3] = 0x80;
+    expect(errorOffset(bytes.buffer)).toBe(2);
+
+    const options = new ValidateOptions();
+    options.checkUtf8 = false;
+    expect(validate(bytes.buffer, options).isOk).toBeTruthy();
+  });
+
+  it("rejects huge declared lengths without reading them", () => {
+    const bytes = new Uint8Array(5);
+    bytes[0] = 0xdd; // array32
+    bytes[1] = 0xff;
+    bytes[2] = 0xff;
+    bytes[3] = 0xff;
+    bytes[4] = 0xff;
+    expect(errorOffset(bytes.buffer)).toBe(5);
+  });
+});
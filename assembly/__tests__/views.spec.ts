@@ -0,0 +1,89 @@
+import { DecodeError, DecodeErrorKind, Decoder, Encoder, SafeDecoder } from "..";
+
+function fields(): ArrayBuffer {
+  const encoder = Encoder.growable();
+  encoder.writeString("price");
+  encoder.writeString("größe €");
+  encoder.writeString("😀!");
+  const bin = new ArrayBuffer(3);
+  store<u8>(changetype<usize>(bin), 7);
+  store<u8>(changetype<usize>(bin) + 2, 9);
+  encoder.writeByteArray(bin);
+  return encoder.toArrayBuffer();
+}
+
+// lengthPrefixed returns prefix, a big-endian u32 length and the bytes "ab".
+function lengthPrefixed(prefix: u8, length: u32): ArrayBuffer {
+  const bytes = new Uint8Array(7);
+  bytes[0] = prefix;
+  store<u32>(bytes.dataStart + 1, bswap(length));
+  bytes[5] = 0x61;
+  bytes[6] = 0x62;
+  return bytes.buffer;
+}
+
+function errorKind(err: Error): DecodeErrorKind {
+  return changetype<DecodeError>(err).kind;
+}
+
+describe("zero-copy views", () => {
+  it("compares raw strings without decoding", () => {
+    const decoder = new Decoder(fields());
+    const price = decoder.readStringRaw();
+    expect(price.byteLength).toBe(5);
+    expect(price.equals("price")).toBeTruthy();
+    expect(price.equals("pric")).toBeFalsy();
+    expect(price.equals("prices")).toBeFalsy();
+    expect(price.equals("Price")).toBeFalsy();
+
+    const size = decoder.readStringRaw();
+    expect(size.equals("größe €")).toBeTruthy();
+    expect(size.equals("grösse €")).toBeFalsy();
+    expect(size.toString()).toBe("größe €");
+
+    const emoji = decoder.readStringRaw();
+    expect(emoji.equals("😀!")).toBeTruthy();
+    expect(emoji.equals("😁!")).toBeFalsy();
+  });
+
+  it("views bin payloads in the source buffer", () => {
+    const buffer = fields();
+    const decoder = new SafeDecoder(buffer);
+    decoder.skip();
+    decoder.skip();
+    decoder.skip();
+    const view = decoder.readByteArrayView().unwrap();
+    expect(view.length).toBe(3);
+    expect(view[0]).toBe(7);
+    expect(view[2]).toBe(9);
+    expect(view.buffer == buffer).toBeTruthy();
+    expect(view.byteOffset).toBe(buffer.byteLength - 3);
+  });
+});
+
+describe("str32 and bin32 lengths", () => {
+  it("rejects lengths past the end of the buffer", () => {
+    const lengths: u32[] = [0xffffffff, 0x80000000, 3];
+    for (let i = 0; i < lengths.length; i++) {
+      const str = new SafeDecoder(lengthPrefixed(0xdb, lengths[i]));
+      const raw = str.readStringRaw();
+      expect(raw.isErr).toBeTruthy();
+      expect(errorKind(raw.unwrapErr())).toBe(DecodeErrorKind.Truncated);
+      expect(str.position).toBe(5);
+      expect(new SafeDecoder(lengthPrefixed(0xdb, lengths[i])).readString().isErr).toBeTruthy();
+
+      const bin = new SafeDecoder(lengthPrefixed(0xc6, lengths[i]));
+      const view = bin.readByteArrayView();
+      expect(view.isErr).toBeTruthy();
+      expect(errorKind(view.unwrapErr())).toBe(DecodeErrorKind.Truncated);
+      expect(bin.position).toBe(5);
+      expect(new SafeDecoder(lengthPrefixed(0xc6, lengths[i])).readByteArray().isErr).toBeTruthy();
+    }
+  });
+
+  it("reads lengths that fit", () => {
+    const decoder = new SafeDecoder(lengthPrefixed(0xdb, 2));
+    expect(decoder.readString().unwrap()).toBe("ab");
+    expect(decoder.hasMore()).toBe(false);
+  });
+});
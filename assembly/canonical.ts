@@ -0,0 +1,46 @@
+// Canonical encoding emits every value in exactly one byte form:
+// - integers use the smallest width of their signedness family
+// - str, bin, array, map and ext headers use the smallest length form
+// - map entries are sorted by the bytes of their encoded keys
+// - floats keep the width they were written with; NaN is always the quiet NaN
+export const CANONICAL_NAN32: u32 = 0x7fc00000;
+export const CANONICAL_NAN64: u64 = 0x7ff8000000000000;
+
+export function compareBytes(a: usize, aLength: i32, b: usize, bLength: i32): i32 {
+  const length = aLength < bLength ? aLength : bLength;
+  const result = memory.compare(a, b, <usize>length);
+  if (result != 0) {
+    return result;
+  }
+  return aLength - bLength;
+}
+
+export function sortedOrder(keys: Array<ArrayBuffer>): Array<i32> {
+  const order = new Array<i32>(keys.length);
+  for (let i = 0; i < keys.length; i++) {
+    order[i] = i;
+  }
+  // Array#sort comparators cannot capture `keys`, so sort the indices by hand
+  for (let i = 1; i < order.length; i++) {
+    const current = order[i];
+    const key = keys[current];
+    let j = i - 1;
+    while (j >= 0) {
+      const other = keys[order[j]];
+      if (
+        compareBytes(
+          changetype<usize>(other),
+          other.byteLength,
+          changetype<usize>(key),
+          key.byteLength
+        ) <= 0
+      ) {
+        break;
+      }
+      order[j + 1] = order[j];
+      j--;
+    }
+    order[j + 1] = current;
+  }
+  return order;
+}
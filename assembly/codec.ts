@@ -1,14 +1,20 @@
 import { Decoder } from "./decoder";
 import { Writer } from "./writer";
 import { Sizer } from "./sizer";
-import { Encoder } from "./encoder";
+import { Encoder, SafeEncoder } from "./encoder";
+import { Result } from "./result";
 
 export interface Codec {
   decode(decoder: Decoder): void;
   encode(encoder: Writer): void;
 }
 
-export function toArrayBuffer(codec: Codec): ArrayBuffer {
+export function toArrayBuffer(codec: Codec, singlePass: bool = false): ArrayBuffer {
+  if (singlePass) {
+    const encoder = Encoder.growable();
+    codec.encode(encoder);
+    return encoder.toArrayBuffer();
+  }
   let sizer = new Sizer();
   codec.encode(sizer);
   let buffer = new ArrayBuffer(sizer.length);
@@ -16,3 +22,39 @@ export function toArrayBuffer(codec: Codec): ArrayBuffer {
   codec.encode(encoder);
   return buffer;
 }
+
+// fromArrayBuffer decodes buffer into a new T, the counterpart of
+// toArrayBuffer. T must have a constructor without required arguments.
+export function fromArrayBuffer<T extends Codec>(buffer: ArrayBuffer): T {
+  const codec = instantiate<T>();
+  codec.decode(new Decoder(buffer));
+  return codec;
+}
+
+export function toCanonicalArrayBuffer(codec: Codec): ArrayBuffer {
+  let sizer = new Sizer();
+  codec.encode(sizer);
+  let buffer = new ArrayBuffer(sizer.length);
+  let encoder = new Encoder(buffer, false, true);
+  codec.encode(encoder);
+  return buffer;
+}
+
+// toArrayBufferSafe encodes codec with a SafeEncoder and returns the first
+// encoding failure instead of throwing it.
+export function toArrayBufferSafe(codec: Codec): Result<ArrayBuffer> {
+  const sizer = SafeEncoder.measuring();
+  codec.encode(sizer);
+  const invalid = sizer.error;
+  if (invalid !== null) {
+    return Result.err<ArrayBuffer>(invalid);
+  }
+  const buffer = new ArrayBuffer(sizer.bytesWritten);
+  const encoder = new SafeEncoder(buffer);
+  codec.encode(encoder);
+  const err = encoder.error;
+  if (err !== null) {
+    return Result.err<ArrayBuffer>(err);
+  }
+  return Result.ok<ArrayBuffer>(buffer);
+}
@@ -0,0 +1,92 @@
+// CoercionPolicy selects which encodings the numeric and bool reads of a
+// decoder accept.
+export const enum CoercionPolicy {
+  // Integers only from their own signedness family (positive fixint is in
+  // both), floats only from float32 and float64, bools only from true/false.
+  Strict,
+  // Integers from either signedness family when the value fits, floats only
+  // from float32 and float64, bools only from true/false.
+  Default,
+  // As Default, plus integers to floats, integral floats to integers when
+  // the value fits, decimal strings to numbers and 0/1 to bools.
+  Lenient,
+}
+
+// Decimal is an integer string split into sign and magnitude.
+export class Decimal {
+  constructor(
+    public readonly negative: bool,
+    public readonly magnitude: u64,
+    public readonly overflow: bool
+  ) {}
+}
+
+// parseDecimal parses an optional sign followed by decimal digits, or
+// returns null when s is not of that form.
+export function parseDecimal(s: string): Decimal | null {
+  const length = s.length;
+  let i = 0;
+  let negative = false;
+  if (length > 0 && (s.charCodeAt(0) == 0x2d || s.charCodeAt(0) == 0x2b)) {
+    negative = s.charCodeAt(0) == 0x2d;
+    i = 1;
+  }
+  if (i == length) {
+    return null;
+  }
+  let magnitude: u64 = 0;
+  let overflow = false;
+  for (; i < length; i++) {
+    const digit = s.charCodeAt(i) - 0x30;
+    if (digit < 0 || digit > 9) {
+      return null;
+    }
+    if (magnitude > (u64.MAX_VALUE - <u64>digit) / 10) {
+      overflow = true;
+    }
+    magnitude = magnitude * 10 + <u64>digit;
+  }
+  return new Decimal(negative, magnitude, overflow);
+}
+
+// isFloatString reports whether s is a decimal number with an optional
+// sign, fraction and exponent.
+export function isFloatString(s: string): bool {
+  const length = s.length;
+  let i = 0;
+  if (i < length && (s.charCodeAt(i) == 0x2d || s.charCodeAt(i) == 0x2b)) {
+    i++;
+  }
+  let digits = 0;
+  while (i < length && isDigit(s.charCodeAt(i))) {
+    i++;
+    digits++;
+  }
+  if (i < length && s.charCodeAt(i) == 0x2e) {
+    i++;
+    while (i < length && isDigit(s.charCodeAt(i))) {
+      i++;
+      digits++;
+    }
+  }
+  if (digits == 0) {
+    return false;
+  }
+  if (i < length && (s.charCodeAt(i) | 0x20) == 0x65) {
+    i++;
+    if (i < length && (s.charCodeAt(i) == 0x2d || s.charCodeAt(i) == 0x2b)) {
+      i++;
+    }
+    if (i == length) {
+      return false;
+    }
+    while (i < length && isDigit(s.charCodeAt(i))) {
+      i++;
+    }
+  }
+  return i == length;
+}
+
+function isDigit(c: i32): bool {
+  return c >= 0x30 && c <= 0x39;
+}
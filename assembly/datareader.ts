@@ -2,15 +2,20 @@ import { BLOCK_MAXSIZE } from "rt/common";
 import { E_INDEXOUTOFRANGE, E_INVALIDLENGTH } from "util/error";
 
 export class DataReader {
-  readonly buffer: ArrayBuffer;
-  @unsafe readonly dataStart: usize;
+  buffer: ArrayBuffer;
+  @unsafe dataStart: usize;
+  // position of the range within buffer; byteOffset and byteLength are
+  // relative to it
+  private base: i32;
   private byteOffset: i32;
-  readonly byteLength: i32;
+  byteLength: i32;
+  private readonly growable: bool;
 
   constructor(
     buffer: ArrayBuffer,
     byteOffset: i32 = 0,
-    byteLength: i32 = buffer.byteLength
+    byteLength: i32 = buffer.byteLength - byteOffset,
+    growable: bool = false
   ) {
     if (
       i32(<u32>byteLength > <u32>BLOCK_MAXSIZE) |
@@ -18,23 +23,64 @@ export class DataReader {
     )
       throw new RangeError(E_INVALIDLENGTH);
     this.buffer = buffer; // retains
-    var dataStart = changetype<usize>(buffer);
+    var dataStart = changetype<usize>(buffer) + <usize>byteOffset;
     this.dataStart = dataStart;
     this.byteLength = byteLength;
-    this.byteOffset = byteOffset;
+    this.base = byteOffset;
+    this.byteOffset = 0;
+    this.growable = growable;
+  }
+
+  get position(): i32 {
+    return this.byteOffset;
+  }
+
+  seek(position: i32): void {
+    if (<u32>position > <u32>this.byteLength)
+      throw new RangeError(E_INDEXOUTOFRANGE);
+    this.byteOffset = position;
+  }
+
+  private ensureCapacity(length: i32): void {
+    const required = this.byteOffset + length;
+    if (required <= this.byteLength) {
+      return;
+    }
+    if (!this.growable || <u32>required > <u32>BLOCK_MAXSIZE)
+      throw new RangeError(E_INDEXOUTOFRANGE);
+    let capacity = this.byteLength << 1;
+    if (capacity < required || <u32>capacity > <u32>BLOCK_MAXSIZE) {
+      capacity = required;
+    }
+    const buffer = new ArrayBuffer(capacity);
+    memory.copy(changetype<usize>(buffer), this.dataStart, this.byteOffset);
+    this.buffer = buffer;
+    this.dataStart = changetype<usize>(buffer);
+    this.base = 0;
+    this.byteLength = capacity;
   }
 
   getBytes(length: i32): ArrayBuffer {
-    if (this.byteOffset + length > this.byteLength)
+    // unsigned, so a negative length is rejected as well
+    if (<u32>length > <u32>(this.byteLength - this.byteOffset))
       throw new RangeError(E_INDEXOUTOFRANGE);
-    const result = this.buffer.slice(this.byteOffset, this.byteOffset + length);
+    const start = this.base + this.byteOffset;
+    const result = this.buffer.slice(start, start + length);
     this.byteOffset += length;
     return result;
   }
 
-  setBytes(buf: ArrayBuffer): void {
-    if (this.byteOffset + buf.byteLength > this.byteLength)
+  getBytesView(length: i32): Uint8Array {
+    // unsigned, so a negative length is rejected as well
+    if (<u32>length > <u32>(this.byteLength - this.byteOffset))
       throw new RangeError(E_INDEXOUTOFRANGE);
+    const result = Uint8Array.wrap(this.buffer, this.base + this.byteOffset, length);
+    this.byteOffset += length;
+    return result;
+  }
+
+  setBytes(buf: ArrayBuffer): void {
+    this.ensureCapacity(buf.byteLength);
     memory.copy(
       changetype<i32>(this.dataStart) + this.byteOffset,
       changetype<i32>(buf),
@@ -44,13 +90,14 @@ export class DataReader {
   }
 
   peekUint8(): u8 {
-    if (this.byteOffset > this.byteLength)
+    if (this.byteOffset >= this.byteLength)
       throw new RangeError(E_INDEXOUTOFRANGE);
     return bswap(load<u8>(this.dataStart + this.byteOffset));
   }
 
   discard(length: i32): void {
-    if (this.byteOffset + length > this.byteLength)
+    // unsigned, so a negative length is rejected as well
+    if (<u32>length > <u32>(this.byteLength - this.byteOffset))
       throw new RangeError(E_INDEXOUTOFRANGE);
     this.byteOffset += length;
   }
@@ -120,57 +167,49 @@ export class DataReader {
   }
 
   setFloat32(value: f32): void {
-    if (this.byteOffset + 4 > this.byteLength)
-      throw new RangeError(E_INDEXOUTOFRANGE);
+    this.ensureCapacity(4);
     store<u32>(this.dataStart + this.byteOffset, bswap(reinterpret<u32>(value)));
     this.byteOffset += 4;
   }
 
   setFloat64(value: f64): void {
-    if (this.byteOffset + 8 > this.byteLength)
-      throw new RangeError(E_INDEXOUTOFRANGE);
+    this.ensureCapacity(8);
     store<u64>(this.dataStart + this.byteOffset, bswap(reinterpret<u64>(value)));
     this.byteOffset += 8;
   }
 
   setInt8(value: i8): void {
-    if (this.byteOffset >= this.byteLength)
-      throw new RangeError(E_INDEXOUTOFRANGE);
+    this.ensureCapacity(1);
     store<i8>(this.dataStart + this.byteOffset, bswap(value));
     this.byteOffset++;
   }
 
   setInt16(value: i16): void {
-    if (this.byteOffset + 2 > this.byteLength)
-      throw new RangeError(E_INDEXOUTOFRANGE);
+    this.ensureCapacity(2);
     store<i16>(this.dataStart + this.byteOffset, bswap(value));
     this.byteOffset += 2;
   }
 
   setInt32(value: i32): void {
-    if (this.byteOffset + 4 > this.byteLength)
-      throw new RangeError(E_INDEXOUTOFRANGE);
+    this.ensureCapacity(4);
     store<i32>(this.dataStart + this.byteOffset, bswap(value));
     this.byteOffset += 4;
   }
 
   setUint8(value: u8): void {
-    if (this.byteOffset >= this.byteLength)
-      throw new RangeError(E_INDEXOUTOFRANGE);
+    this.ensureCapacity(1);
     store<u8>(this.dataStart + this.byteOffset, bswap(value));
     this.byteOffset++;
   }
 
   setUint16(value: u16): void {
-    if (this.byteOffset + 2 > this.byteLength)
-      throw new RangeError(E_INDEXOUTOFRANGE);
-    store<i32>(this.dataStart + this.byteOffset, bswap(value));
+    this.ensureCapacity(2);
+    store<u16>(this.dataStart + this.byteOffset, bswap(value));
     this.byteOffset += 2;
   }
 
   setUint32(value: u32): void {
-    if (this.byteOffset + 4 > this.byteLength)
-      throw new RangeError(E_INDEXOUTOFRANGE);
+    this.ensureCapacity(4);
     store<u32>(this.dataStart + this.byteOffset, bswap(value));
     this.byteOffset += 4;
   }
@@ -193,15 +232,13 @@ export class DataReader {
   }
 
   setInt64(value: i64): void {
-    if (this.byteOffset + 8 > this.byteLength)
-      throw new RangeError(E_INDEXOUTOFRANGE);
+    this.ensureCapacity(8);
     store<i64>(this.dataStart + this.byteOffset, bswap(value));
     this.byteOffset += 8;
   }
 
   setUint64(value: u64): void {
-    if (this.byteOffset + 8 > this.byteLength)
-      throw new RangeError(E_INDEXOUTOFRANGE);
+    this.ensureCapacity(8);
     store<u64>(this.dataStart + this.byteOffset, bswap(value));
     this.byteOffset += 8;
   }
@@ -0,0 +1,64 @@
+import { Format } from "./format";
+
+export const enum DecodeErrorKind {
+  TypeMismatch,
+  Overflow,
+  Underflow,
+  Truncated,
+  InvalidLength,
+  InvalidUtf8,
+  LimitExceeded,
+  NonCanonical,
+}
+
+export function decodeErrorKindName(kind: DecodeErrorKind): string {
+  switch (kind) {
+    case DecodeErrorKind.TypeMismatch:
+      return "type mismatch";
+    case DecodeErrorKind.Overflow:
+      return "overflow";
+    case DecodeErrorKind.Underflow:
+      return "underflow";
+    case DecodeErrorKind.Truncated:
+      return "truncated";
+    case DecodeErrorKind.InvalidLength:
+      return "invalid length";
+    case DecodeErrorKind.InvalidUtf8:
+      return "invalid UTF-8";
+    case DecodeErrorKind.LimitExceeded:
+      return "limit exceeded";
+    case DecodeErrorKind.NonCanonical:
+      return "non-canonical";
+  }
+  return "unknown";
+}
+
+// DecodeError is the error carried by a failed SafeDecoder read, skip,
+// getSize or checkCanonical; validate() reports a ValidationError instead.
+// offset is the position of the lead byte of the value being read,
+// expected is the widest format of the family the read asked for and actual
+// the format found at offset (Format.ERROR when either does not apply), and
+// path is the field path pushed by the Codec, e.g. "orders[3].price".
+export class DecodeError extends Error {
+  constructor(
+    public readonly kind: DecodeErrorKind,
+    message: string,
+    public readonly offset: u32,
+    public readonly expected: Format,
+    public readonly actual: Format,
+    public readonly path: string
+  ) {
+    super(
+      path.length > 0
+        ? message + " at offset " + offset.toString() + " in " + path
+        : message + " at offset " + offset.toString()
+    );
+    this.name = "DecodeError";
+  }
+
+  // toString leads with the kind, which the message does not always name:
+  // "DecodeError (type mismatch): ... at offset 18 in orders[1].price".
+  toString(): string {
+    return this.name + " (" + decodeErrorKindName(this.kind) + "): " + this.message;
+  }
+}
@@ -1,19 +1,133 @@
 import { DataReader } from "./datareader";
-import { Format, formatName } from "./format";
+import {
+  Format,
+  Kind,
+  childCount,
+  formatName,
+  formatOf,
+  headerWidth,
+  isValidPrefix,
+  lengthWidth,
+  payloadSize,
+} from "./format";
 import { Result } from "./result";
-import { E_INVALIDLENGTH } from "util/error";
+import { Ext, ExtHeader, ExtensionRegistry } from "./ext";
+import { Timestamp, TIMESTAMP_EXT_TYPE, isValidNanoseconds } from "./timestamp";
+import {
+  MsgPackArray,
+  MsgPackBin,
+  MsgPackBool,
+  MsgPackExt,
+  MsgPackFloat,
+  MsgPackInt,
+  MsgPackMap,
+  MsgPackNil,
+  MsgPackStr,
+  MsgPackUInt,
+  MsgPackValue,
+} from "./msgpackvalue";
+import { CANONICAL_NAN32, CANONICAL_NAN64, compareBytes } from "./canonical";
+import { DecodeError, DecodeErrorKind } from "./decodeerror";
+import { findInvalidUtf8 } from "./utf8";
+import { RawString } from "./rawstring";
+import { CoercionPolicy, isFloatString, parseDecimal } from "./coercion";
+import { E_INDEXOUTOFRANGE, E_INVALIDLENGTH } from "util/error";
+
+// DecoderOptions bounds the resources a decoder may spend on a message.
+// Every limit defaults to unlimited.
+export class DecoderOptions {
+  // Maximum nesting of arrays and maps read through readArray, readMap,
+  // readValue, skip or enterNested. readValue never goes past VALUE_MAX_DEPTH.
+  maxDepth: u32 = u32.MAX_VALUE;
+  // Maximum declared element count of an array or entry count of a map.
+  maxCollectionLength: u32 = u32.MAX_VALUE;
+  // Maximum byte length of a str.
+  maxStringLength: u32 = u32.MAX_VALUE;
+  // Maximum byte length of a bin or ext payload.
+  maxBinLength: u32 = u32.MAX_VALUE;
+  // Maximum bytes allocated over the life of the decoder: str, bin and ext
+  // payloads plus 8 bytes per array element and 16 bytes per map entry.
+  maxTotalBytes: u64 = u64.MAX_VALUE;
+  // Reject str payloads that are not well-formed UTF-8 instead of decoding
+  // them with replacement characters.
+  checkUtf8: bool = false;
+  // Which encodings numeric and bool reads accept.
+  coercion: CoercionPolicy = CoercionPolicy.Default;
+  // Accept only the prefixes the MessagePack spec defines for each read:
+  // no fixarray as a str or bin length and no nil as a bin or array.
+  strictPrefixes: bool = false;
+}
+
+// VALUE_MAX_DEPTH bounds the nesting readValue and checkCanonical accept
+// whatever options.maxDepth says. Both recurse once per level, and input
+// nested much deeper would overflow the Wasm stack instead of returning Err.
+export const VALUE_MAX_DEPTH: u32 = 512;
 
 export class Decoder {
   private readonly decoder: SafeDecoder;
 
-  constructor(ua: ArrayBuffer) {
-    this.decoder = new SafeDecoder(ua);
+  constructor(
+    ua: ArrayBuffer,
+    options: DecoderOptions | null = null,
+    byteOffset: i32 = 0,
+    byteLength: i32 = ua.byteLength - byteOffset
+  ) {
+    this.decoder = new SafeDecoder(ua, options, byteOffset, byteLength);
+  }
+
+  // range decodes byteLength bytes of ua starting at byteOffset.
+  static range(
+    ua: ArrayBuffer,
+    byteOffset: i32,
+    byteLength: i32 = ua.byteLength - byteOffset,
+    options: DecoderOptions | null = null
+  ): Decoder {
+    return new Decoder(ua, options, byteOffset, byteLength);
+  }
+
+  get position(): i32 {
+    return this.decoder.position;
+  }
+
+  get remaining(): i32 {
+    return this.decoder.remaining;
+  }
+
+  hasMore(): bool {
+    return this.decoder.hasMore();
+  }
+
+  mark(): u32 {
+    return this.decoder.mark();
+  }
+
+  reset(mark: u32): void {
+    this.decoder.reset(mark).unwrap();
+  }
+
+  // tryRead attempts a speculative read through the SafeDecoder API, since a
+  // throwing read cannot be recovered from, and restores the position when
+  // fn fails.
+  tryRead<T>(fn: (decoder: SafeDecoder) => Result<T>): Result<T> {
+    return this.decoder.tryRead<T>(fn);
   }
 
   isNextNil(): bool {
     return this.decoder.isNextNil();
   }
 
+  peekFormat(): Format {
+    return this.decoder.peekFormat().unwrap();
+  }
+
+  peekKind(): Kind {
+    return this.decoder.peekKind().unwrap();
+  }
+
+  peekLength(): u32 {
+    return this.decoder.peekLength().unwrap();
+  }
+
   readBool(): bool {
     return this.decoder.readBool().unwrap();
   }
@@ -62,6 +176,10 @@ export class Decoder {
     return this.decoder.readString().unwrap();
   }
 
+  readStringRaw(): RawString {
+    return this.decoder.readStringRaw().unwrap();
+  }
+
   readStringLength(): u32 {
     return this.decoder.readStringLength().unwrap();
   }
@@ -74,6 +192,10 @@ export class Decoder {
     return this.decoder.readByteArray().unwrap();
   }
 
+  readByteArrayView(): Uint8Array {
+    return this.decoder.readByteArrayView().unwrap();
+  }
+
   readArraySize(): u32 {
     return this.decoder.readArraySize().unwrap();
   }
@@ -82,13 +204,79 @@ export class Decoder {
     return this.decoder.readMapSize().unwrap();
   }
 
+  readStructAsArray(): u32 {
+    return this.decoder.readStructAsArray().unwrap();
+  }
+
+  skipTrailingFields(count: u32, known: u32): void {
+    this.decoder.skipTrailingFields(count, known).unwrap();
+  }
+
+  readFieldTag(): u32 {
+    return this.decoder.readFieldTag().unwrap();
+  }
+
+  readRaw(): ArrayBuffer {
+    return this.decoder.readRaw().unwrap();
+  }
+
+  readExtHeader(): ExtHeader {
+    return this.decoder.readExtHeader().unwrap();
+  }
+
+  readExt(): Ext {
+    return this.decoder.readExt().unwrap();
+  }
+
+  readExtValue<T>(registry: ExtensionRegistry): T {
+    return this.decoder.readExtValue<T>(registry).unwrap();
+  }
+
+  readValue(): MsgPackValue {
+    return this.decoder.readValue().unwrap();
+  }
+
+  enterNested(): void {
+    this.decoder.enterNested().unwrap();
+  }
+
+  exitNested(): void {
+    this.decoder.exitNested();
+  }
+
+  pushField(name: string): void {
+    this.decoder.pushField(name);
+  }
+
+  pushIndex(index: u32): void {
+    this.decoder.pushIndex(index);
+  }
+
+  popField(): void {
+    this.decoder.popField();
+  }
+
+  get path(): string {
+    return this.decoder.path;
+  }
+
+  readTimestamp(): Timestamp {
+    return this.decoder.readTimestamp().unwrap();
+  }
+
+  readDate(): Date {
+    return this.decoder.readDate().unwrap();
+  }
+
   readArray<T>(fn: (decoder: Decoder, i?: u32) => T): Array<T> {
     const size = this.readArraySize();
+    this.enterNested();
     let a = new Array<T>();
     for (let i: u32 = 0; i < size; i++) {
       const item = fn(this);
       a.push(item);
     }
+    this.exitNested();
     return a;
   }
 
@@ -101,12 +289,14 @@ export class Decoder {
 
   readMap<K, V>(keyFn: (decoder: Decoder, i?: u32) => K, valueFn: (decoder: Decoder, i?: u32) => V): Map<K, V> {
     const size = this.readMapSize();
+    this.enterNested();
     let m = new Map<K, V>();
     for (let i: u32 = 0; i < size; i++) {
       const key = keyFn(this, i);
       const value = valueFn(this, i);
       m.set(key, value);
     }
+    this.exitNested();
     return m;
   }
 
@@ -125,19 +315,325 @@ export class Decoder {
   isFixedArray(u: u8): bool { return this.decoder.isFixedArray(u); }
   isFixedString(u: u8): bool { return this.decoder.isFixedString(u); }
   isNil(u: u8): bool { return this.decoder.isNil(u); }
-  getSize(): u32 { return this.decoder.getSize(); }
-  skip(): void { this.decoder.skip(); }
+  getSize(): u64 { return this.decoder.getSize().unwrap(); }
+  skip(): void { this.decoder.skip().unwrap(); }
+  checkCanonical(): bool { return this.decoder.checkCanonical().unwrap(); }
 }
 
 export class SafeDecoder {
   private reader: DataReader;
+  private readonly options: DecoderOptions;
+  private depth: u32 = 0;
+  private allocated: u64 = 0;
+  // offset of the lead byte of the value being read, reported in DecodeError
+  private start: i32 = 0;
+  private readonly fields: Array<string> = new Array<string>();
+
+  // byteOffset and byteLength select the range of ua to decode; position,
+  // remaining and DecodeError offsets are relative to byteOffset.
+  constructor(
+    ua: ArrayBuffer,
+    options: DecoderOptions | null = null,
+    byteOffset: i32 = 0,
+    byteLength: i32 = ua.byteLength - byteOffset
+  ) {
+    this.reader = new DataReader(ua, byteOffset, byteLength);
+    this.options = options !== null ? options : new DecoderOptions();
+  }
+
+  // range decodes byteLength bytes of ua starting at byteOffset.
+  static range(
+    ua: ArrayBuffer,
+    byteOffset: i32,
+    byteLength: i32 = ua.byteLength - byteOffset,
+    options: DecoderOptions | null = null
+  ): SafeDecoder {
+    return new SafeDecoder(ua, options, byteOffset, byteLength);
+  }
+
+  get position(): i32 {
+    return this.reader.position;
+  }
+
+  get remaining(): i32 {
+    return this.reader.byteLength - this.reader.position;
+  }
+
+  hasMore(): bool {
+    return this.reader.position < this.reader.byteLength;
+  }
+
+  // mark returns the current position for a later reset.
+  mark(): u32 {
+    return <u32>this.reader.position;
+  }
+
+  reset(mark: u32): Result<bool> {
+    if (mark > <u32>this.reader.byteLength) {
+      return Result.err<bool>(new RangeError(
+        E_INDEXOUTOFRANGE + ": mark = " + mark.toString() + "; length = " + this.reader.byteLength.toString()
+      ));
+    }
+    this.reader.seek(<i32>mark);
+    return Result.ok<bool>(true);
+  }
+
+  // tryRead runs fn and, when it fails, restores the position, nesting
+  // depth, field path and bytes charged against maxTotalBytes to what they
+  // were before the call.
+  tryRead<T>(fn: (decoder: SafeDecoder) => Result<T>): Result<T> {
+    const position = this.reader.position;
+    const depth = this.depth;
+    const fields = this.fields.length;
+    const allocated = this.allocated;
+    const result = fn(this);
+    if (result.isErr) {
+      this.reader.seek(position);
+      this.depth = depth;
+      this.fields.length = fields;
+      this.allocated = allocated;
+    }
+    return result;
+  }
+
+  enterNested(): Result<bool> {
+    if (this.depth >= this.options.maxDepth) {
+      return Result.err<bool>(this.fail(
+        DecodeErrorKind.LimitExceeded,
+        Format.ERROR,
+        "limit exceeded: depth = " + (this.depth + 1).toString() + "; max = " + this.options.maxDepth.toString()
+      ));
+    }
+    this.depth++;
+    return Result.ok<bool>(true);
+  }
+
+  // enterRecursive is enterNested for the readers that recurse per level.
+  private enterRecursive(): Result<bool> {
+    if (this.depth >= VALUE_MAX_DEPTH) {
+      return Result.err<bool>(this.fail(
+        DecodeErrorKind.LimitExceeded,
+        Format.ERROR,
+        "limit exceeded: depth = " + (this.depth + 1).toString() + "; max = " + VALUE_MAX_DEPTH.toString()
+      ));
+    }
+    return this.enterNested();
+  }
+
+  exitNested(): void {
+    if (this.depth > 0) {
+      this.depth--;
+    }
+  }
+
+  // pushField and pushIndex append a segment to the field path reported in
+  // DecodeError; popField removes the last one. Pushing "orders", 3 and
+  // "price" gives the path "orders[3].price".
+  pushField(name: string): void {
+    this.fields.push(name);
+  }
+
+  pushIndex(index: u32): void {
+    this.fields.push("[" + index.toString() + "]");
+  }
+
+  popField(): void {
+    if (this.fields.length > 0) {
+      this.fields.pop();
+    }
+  }
+
+  get path(): string {
+    let path = "";
+    for (let i = 0; i < this.fields.length; i++) {
+      const field = this.fields[i];
+      if (i > 0 && !field.startsWith("[")) {
+        path += ".";
+      }
+      path += field;
+    }
+    return path;
+  }
+
+  private fail(kind: DecodeErrorKind, expected: Format, message: string): DecodeError {
+    const start = this.start;
+    const actual = start < this.reader.byteLength
+      ? formatOf(load<u8>(this.reader.dataStart + start))
+      : Format.ERROR;
+    return new DecodeError(kind, message, <u32>start, expected, actual, this.path);
+  }
+
+  private checkLength(length: u32, max: u32, kind: string): Result<u32> {
+    if (length > max) {
+      return Result.err<u32>(this.fail(
+        DecodeErrorKind.LimitExceeded,
+        Format.ERROR,
+        "limit exceeded: " + kind + " length = " + length.toString() + "; max = " + max.toString()
+      ));
+    }
+    return Result.ok<u32>(length);
+  }
+
+  private checkCollection(length: u32, bytesPerItem: u64): Result<u32> {
+    const result = this.checkLength(length, this.options.maxCollectionLength, "collection");
+    if (result.isErr) {
+      return result;
+    }
+    const err = this.allocate(<u64>length * bytesPerItem);
+    if (err !== null) {
+      return Result.err<u32>(err);
+    }
+    return result;
+  }
+
+  private allocate(bytes: u64): DecodeError | null {
+    const max = this.options.maxTotalBytes;
+    if (bytes > max || this.allocated > max - bytes) {
+      return this.fail(
+        DecodeErrorKind.LimitExceeded,
+        Format.ERROR,
+        "limit exceeded: allocated bytes = " + (this.allocated + bytes).toString() + "; max = " + max.toString()
+      );
+    }
+    this.allocated += bytes;
+    return null;
+  }
+
+  // peekFormat, peekKind and peekLength inspect the next value without
+  // moving the cursor.
+  peekFormat(): Result<Format> {
+    this.start = this.reader.position;
+    if (!this.hasBytes(1)) {
+      return Result.err<Format>(this.truncated(1));
+    }
+    return Result.ok<Format>(formatOf(this.reader.peekUint8()));
+  }
+
+  peekKind(): Result<Kind> {
+    this.start = this.reader.position;
+    if (!this.hasBytes(1)) {
+      return Result.err<Kind>(this.truncated(1));
+    }
+    switch (formatOf(this.reader.peekUint8())) {
+      case Format.NIL:
+        return Result.ok<Kind>(Kind.Nil);
+      case Format.TRUE:
+      case Format.FALSE:
+        return Result.ok<Kind>(Kind.Bool);
+      case Format.POSITIVE_FIXINT:
+      case Format.UINT8:
+      case Format.UINT16:
+      case Format.UINT32:
+      case Format.UINT64:
+        return Result.ok<Kind>(Kind.UInt);
+      case Format.NEGATIVE_FIXINT:
+      case Format.INT8:
+      case Format.INT16:
+      case Format.INT32:
+      case Format.INT64:
+        return Result.ok<Kind>(Kind.Int);
+      case Format.FLOAT32:
+      case Format.FLOAT64:
+        return Result.ok<Kind>(Kind.Float);
+      case Format.FIXSTR:
+      case Format.STR8:
+      case Format.STR16:
+      case Format.STR32:
+        return Result.ok<Kind>(Kind.Str);
+      case Format.BIN8:
+      case Format.BIN16:
+      case Format.BIN32:
+        return Result.ok<Kind>(Kind.Bin);
+      case Format.FIXARRAY:
+      case Format.ARRAY16:
+      case Format.ARRAY32:
+        return Result.ok<Kind>(Kind.Array);
+      case Format.FIXMAP:
+      case Format.MAP16:
+      case Format.MAP32:
+        return Result.ok<Kind>(Kind.Map);
+      case Format.FIXEXT1:
+      case Format.FIXEXT2:
+      case Format.FIXEXT4:
+      case Format.FIXEXT8:
+      case Format.FIXEXT16:
+      case Format.EXT8:
+      case Format.EXT16:
+      case Format.EXT32:
+        return Result.ok<Kind>(Kind.Ext);
+    }
+    return Result.err<Kind>(this.fail(
+      DecodeErrorKind.TypeMismatch,
+      Format.ERROR,
+      "invalid prefix, bad encoding for val: " + this.reader.peekUint8().toString()
+    ));
+  }
 
-  constructor(ua: ArrayBuffer) {
-    this.reader = new DataReader(ua, 0, ua.byteLength);
+  // peekLength returns the byte length of a str, bin or ext payload or the
+  // number of elements of an array or entries of a map.
+  peekLength(): Result<u32> {
+    this.start = this.reader.position;
+    if (!this.hasBytes(1)) {
+      return Result.err<u32>(this.truncated(1));
+    }
+    const leadByte = this.reader.peekUint8();
+    let size = 0;
+    switch (formatOf(leadByte)) {
+      case Format.FIXSTR:
+        return Result.ok<u32>(<u32>(leadByte & 0x1f));
+      case Format.FIXARRAY:
+      case Format.FIXMAP:
+        return Result.ok<u32>(<u32>(leadByte & Format.FOUR_LEAST_SIG_BITS_IN_BYTE));
+      case Format.FIXEXT1:
+        return Result.ok<u32>(1);
+      case Format.FIXEXT2:
+        return Result.ok<u32>(2);
+      case Format.FIXEXT4:
+        return Result.ok<u32>(4);
+      case Format.FIXEXT8:
+        return Result.ok<u32>(8);
+      case Format.FIXEXT16:
+        return Result.ok<u32>(16);
+      case Format.STR8:
+      case Format.BIN8:
+      case Format.EXT8:
+        size = 1;
+        break;
+      case Format.STR16:
+      case Format.BIN16:
+      case Format.EXT16:
+      case Format.ARRAY16:
+      case Format.MAP16:
+        size = 2;
+        break;
+      case Format.STR32:
+      case Format.BIN32:
+      case Format.EXT32:
+      case Format.ARRAY32:
+      case Format.MAP32:
+        size = 4;
+        break;
+      default:
+        return Result.err<u32>(this.fail(
+          DecodeErrorKind.TypeMismatch,
+          Format.ERROR,
+          "bad prefix for length: prefix = 0x" + leadByte.toString(16) + "; type = " + formatName(leadByte)
+        ));
+    }
+    if (!this.hasBytes(1 + size)) {
+      return Result.err<u32>(this.truncated(1 + size));
+    }
+    const ptr = this.reader.dataStart + this.reader.position + 1;
+    if (size == 1) {
+      return Result.ok<u32>(<u32>load<u8>(ptr));
+    } else if (size == 2) {
+      return Result.ok<u32>(<u32>bswap(load<u16>(ptr)));
+    }
+    return Result.ok<u32>(bswap(load<u32>(ptr)));
   }
 
   isNextNil(): bool {
-    if (this.reader.peekUint8() == Format.NIL) {
+    if (this.hasMore() && this.reader.peekUint8() == Format.NIL) {
       this.reader.discard(1);
       return true;
     }
@@ -145,13 +641,23 @@ export class SafeDecoder {
   }
 
   readBool(): Result<bool> {
-    const value = this.reader.getUint8();
+    const prefixResult = this.readPrefix();
+    if (prefixResult.isErr) {
+      return Result.err<bool>(prefixResult.unwrapErr());
+    }
+    const value = prefixResult.unwrap();
     if (value == Format.TRUE) {
       return Result.ok<bool>(true);
     } else if (value == Format.FALSE) {
       return Result.ok<bool>(false);
+    } else if (this.options.coercion == CoercionPolicy.Lenient && value <= 1) {
+      return Result.ok<bool>(value == 1);
     }
-    return Result.err<bool>(new Error("bad value for bool: value = 0x" + value.toString(16) + "; type = " + formatName(value)));
+    return Result.err<bool>(this.fail(
+      DecodeErrorKind.TypeMismatch,
+      Format.TRUE,
+      "bad value for bool: value = 0x" + value.toString(16) + "; type = " + formatName(value)
+    ));
   }
 
   readInt8(): Result<i8> {
@@ -164,7 +670,9 @@ export class SafeDecoder {
     if (value <= <i64>i8.MAX_VALUE && value >= <i64>i8.MIN_VALUE) {
       return Result.ok<i8>(<i8>value);
     }
-    return Result.err<i8>(new Error(
+    return Result.err<i8>(this.fail(
+      DecodeErrorKind.Overflow,
+      Format.INT8,
       "integer overflow: value = " + value.toString() + "; bits = 8"
     ));
   }
@@ -179,7 +687,9 @@ export class SafeDecoder {
     if (value <= <i64>i16.MAX_VALUE && value >= <i64>i16.MIN_VALUE) {
       return Result.ok<i16>(<i16>value);
     }
-    return Result.err<i16>(new Error(
+    return Result.err<i16>(this.fail(
+      DecodeErrorKind.Overflow,
+      Format.INT16,
       "integer overflow: value = " + value.toString() + "; bits = 16"
     ));
   }
@@ -194,13 +704,19 @@ export class SafeDecoder {
     if (value <= <i64>i32.MAX_VALUE && value >= <i64>i32.MIN_VALUE) {
       return Result.ok<i32>(<i32>value);
     }
-    return Result.err<i32>(new Error(
+    return Result.err<i32>(this.fail(
+      DecodeErrorKind.Overflow,
+      Format.INT32,
       "integer overflow: value = " + value.toString() + "; bits = 32"
     ));
   }
 
   readInt64(): Result<i64> {
-    const prefix = this.reader.getUint8();
+    const prefixResult = this.readPrefix();
+    if (prefixResult.isErr) {
+      return Result.err<i64>(prefixResult.unwrapErr());
+    }
+    const prefix = prefixResult.unwrap();
 
     if (this.isFixedInt(prefix)) {
       return Result.ok<i64>(<i64>prefix);
@@ -208,6 +724,13 @@ export class SafeDecoder {
     if (this.isNegativeFixedInt(prefix)) {
       return Result.ok<i64>(<i64>(<i8>prefix));
     }
+    if (this.options.coercion == CoercionPolicy.Strict && prefix >= <u8>Format.UINT8 && prefix <= <u8>Format.UINT64) {
+      return Result.err<i64>(this.fail(
+        DecodeErrorKind.TypeMismatch,
+        Format.INT64,
+        "bad prefix for int: prefix = 0x" + prefix.toString(16) + "; type = " + formatName(prefix)
+      ));
+    }
     switch (prefix) {
       case Format.INT8:
         return Result.ok<i64>(<i64>this.reader.getInt8());
@@ -229,12 +752,21 @@ export class SafeDecoder {
           return Result.ok<i64>(<i64>value);
         }
 
-        return Result.err<i64>(new Error(
+        return Result.err<i64>(this.fail(
+          DecodeErrorKind.Overflow,
+          Format.INT64,
           "integer overflow: value = " + value.toString() + "; type = i64"
         ));
       }
       default:
-        return Result.err<i64>(new Error("bad prefix for int: prefix = 0x" + prefix.toString(16) + "; type = " + formatName(prefix)));
+        if (this.options.coercion == CoercionPolicy.Lenient) {
+          return this.coerceInt64(prefix);
+        }
+        return Result.err<i64>(this.fail(
+          DecodeErrorKind.TypeMismatch,
+          Format.INT64,
+          "bad prefix for int: prefix = 0x" + prefix.toString(16) + "; type = " + formatName(prefix)
+        ));
     }
   }
 
@@ -248,7 +780,9 @@ export class SafeDecoder {
     if (value <= <u64>u8.MAX_VALUE) {
       return Result.ok<u8>(<u8>value);
     }
-    return Result.err<u8>(new Error(
+    return Result.err<u8>(this.fail(
+      DecodeErrorKind.Overflow,
+      Format.UINT8,
       "unsigned integer overflow: value = " + value.toString() + "; bits = 8"
     ));
   }
@@ -263,7 +797,9 @@ export class SafeDecoder {
     if (value <= <u64>u16.MAX_VALUE) {
       return Result.ok<u16>(<u16>value);
     }
-    return Result.err<u16>(new Error(
+    return Result.err<u16>(this.fail(
+      DecodeErrorKind.Overflow,
+      Format.UINT16,
       "unsigned integer overflow: value = " + value.toString() + "; bits = 16"
     ));
   }
@@ -278,18 +814,34 @@ export class SafeDecoder {
     if (value <= <u64>u32.MAX_VALUE) {
       return Result.ok<u32>(<u32>value);
     }
-    return Result.err<u32>(new Error(
+    return Result.err<u32>(this.fail(
+      DecodeErrorKind.Overflow,
+      Format.UINT32,
       "unsigned integer overflow: value = " + value.toString() + "; bits = 32"
     ));
   }
 
   readUInt64(): Result<u64> {
-    const prefix = this.reader.getUint8();
+    const prefixResult = this.readPrefix();
+    if (prefixResult.isErr) {
+      return Result.err<u64>(prefixResult.unwrapErr());
+    }
+    const prefix = prefixResult.unwrap();
 
     if (this.isFixedInt(prefix)) {
       return Result.ok<u64>(<u64>prefix);
     } else if (this.isNegativeFixedInt(prefix)) {
-      return Result.err<u64>(new Error("bad prefix for unsigned int: prefix = 0x" + prefix.toString(16) + "; type = " + formatName(prefix)));
+      return Result.err<u64>(this.fail(
+        DecodeErrorKind.Underflow,
+        Format.UINT64,
+        "integer underflow: value = " + (<i8>prefix).toString() + "; type = u64"
+      ));
+    } else if (this.options.coercion == CoercionPolicy.Strict && prefix >= <u8>Format.INT8 && prefix <= <u8>Format.INT64) {
+      return Result.err<u64>(this.fail(
+        DecodeErrorKind.TypeMismatch,
+        Format.UINT64,
+        "bad prefix for unsigned int: prefix = 0x" + prefix.toString(16) + "; type = " + formatName(prefix)
+      ));
     }
 
     switch (prefix) {
@@ -306,7 +858,9 @@ export class SafeDecoder {
         if (value >= 0) {
           return Result.ok<u64>(<u64>value);
         }
-        return Result.err<u64>(new Error(
+        return Result.err<u64>(this.fail(
+          DecodeErrorKind.Underflow,
+          Format.UINT64,
           "integer underflow: value = " + value.toString() + "; type = u64"
         ));
       }
@@ -315,7 +869,9 @@ export class SafeDecoder {
         if (value >= 0) {
           return Result.ok<u64>(<u64>value);
         }
-        return Result.err<u64>(new Error(
+        return Result.err<u64>(this.fail(
+          DecodeErrorKind.Underflow,
+          Format.UINT64,
           "integer underflow: value = " + value.toString() + "; type = u64"
         ));
       case Format.INT32:
@@ -323,7 +879,9 @@ export class SafeDecoder {
         if (value >= 0) {
           return Result.ok<u64>(<u64>value);
         }
-        return Result.err<u64>(new Error(
+        return Result.err<u64>(this.fail(
+          DecodeErrorKind.Underflow,
+          Format.UINT64,
           "integer underflow: value = " + value.toString() + "; type = u64"
         ));
       case Format.INT64:
@@ -331,16 +889,29 @@ export class SafeDecoder {
         if (value >= 0) {
           return Result.ok<u64>(<u64>value);
         }
-        return Result.err<u64>(new Error(
+        return Result.err<u64>(this.fail(
+          DecodeErrorKind.Underflow,
+          Format.UINT64,
           "integer underflow: value = " + value.toString() + "; type = u64"
         ));
       default:
-        return Result.err<u64>(new Error("bad prefix for unsigned int: prefix = 0x" + prefix.toString(16) + "; type = " + formatName(prefix)));
+        if (this.options.coercion == CoercionPolicy.Lenient) {
+          return this.coerceUInt64(prefix);
+        }
+        return Result.err<u64>(this.fail(
+          DecodeErrorKind.TypeMismatch,
+          Format.UINT64,
+          "bad prefix for unsigned int: prefix = 0x" + prefix.toString(16) + "; type = " + formatName(prefix)
+        ));
     }
   }
 
   readFloat32(): Result<f32> {
-    const prefix = this.reader.getUint8();
+    const prefixResult = this.readPrefix();
+    if (prefixResult.isErr) {
+      return Result.err<f32>(prefixResult.unwrapErr());
+    }
+    const prefix = prefixResult.unwrap();
     if (this.isFloat32(prefix)) {
       return Result.ok<f32>(<f32>this.reader.getFloat32());
     } else if (this.isFloat64(prefix)) {
@@ -350,75 +921,327 @@ export class SafeDecoder {
       if (abs(diff) <= <f64>f32.EPSILON) {
         return Result.ok<f32>(f32.MAX_VALUE);
       } else if (diff < 0) {
-        return Result.err<f32>(new Error(
+        return Result.err<f32>(this.fail(
+          DecodeErrorKind.Overflow,
+          Format.FLOAT32,
           "float overflow: value = " + value.toString() + "; type = f32"
         ));
       } else {
         return Result.ok<f32>(<f32>value);
       }
+    } else if (this.options.coercion == CoercionPolicy.Lenient) {
+      const result = this.coerceFloat64(prefix);
+      if (result.isErr) {
+        return Result.err<f32>(result.unwrapErr());
+      }
+      const value = result.unwrap();
+      if (abs(value) > <f64>f32.MAX_VALUE) {
+        return Result.err<f32>(this.fail(
+          DecodeErrorKind.Overflow,
+          Format.FLOAT32,
+          "float overflow: value = " + value.toString() + "; type = f32"
+        ));
+      }
+      return Result.ok<f32>(<f32>value);
     } else {
-      return Result.err<f32>(new Error("bad prefix for float: prefix = 0x" + prefix.toString(16) + "; type = " + formatName(prefix)));
+      return Result.err<f32>(this.fail(
+        DecodeErrorKind.TypeMismatch,
+        Format.FLOAT32,
+        "bad prefix for float: prefix = 0x" + prefix.toString(16) + "; type = " + formatName(prefix)
+      ));
     }
   }
 
   readFloat64(): Result<f64> {
-    const prefix = this.reader.getUint8();
+    const prefixResult = this.readPrefix();
+    if (prefixResult.isErr) {
+      return Result.err<f64>(prefixResult.unwrapErr());
+    }
+    const prefix = prefixResult.unwrap();
     if (this.isFloat64(prefix)) {
       return Result.ok<f64>(<f64>this.reader.getFloat64());
     } else if (this.isFloat32(prefix)) {
       return Result.ok<f64>(<f64>this.reader.getFloat32());
+    } else if (this.options.coercion == CoercionPolicy.Lenient) {
+      return this.coerceFloat64(prefix);
     } else {
-      return Result.err<f64>(new Error("bad prefix for float: prefix = 0x" + prefix.toString(16) + "; type = " + formatName(prefix)));
+      return Result.err<f64>(this.fail(
+        DecodeErrorKind.TypeMismatch,
+        Format.FLOAT64,
+        "bad prefix for float: prefix = 0x" + prefix.toString(16) + "; type = " + formatName(prefix)
+      ));
+    }
+  }
+
+  // coerceInt64, coerceUInt64 and coerceFloat64 convert the values only
+  // CoercionPolicy.Lenient accepts. prefix has already been consumed.
+  private coerceInt64(prefix: u8): Result<i64> {
+    if (this.isFloat32(prefix) || this.isFloat64(prefix)) {
+      const value = this.isFloat32(prefix) ? <f64>this.reader.getFloat32() : this.reader.getFloat64();
+      if (!isIntegral(value)) {
+        return Result.err<i64>(this.fail(
+          DecodeErrorKind.TypeMismatch,
+          Format.INT64,
+          "inexact float for int: value = " + value.toString()
+        ));
+      } else if (value < -9223372036854775808.0) {
+        return Result.err<i64>(this.fail(
+          DecodeErrorKind.Underflow,
+          Format.INT64,
+          "integer underflow: value = " + value.toString() + "; type = i64"
+        ));
+      } else if (value >= 9223372036854775808.0) {
+        return Result.err<i64>(this.fail(
+          DecodeErrorKind.Overflow,
+          Format.INT64,
+          "integer overflow: value = " + value.toString() + "; type = i64"
+        ));
+      }
+      return Result.ok<i64>(<i64>value);
+    }
+
+    if (!this.isStringPrefix(prefix)) {
+      return Result.err<i64>(this.fail(
+        DecodeErrorKind.TypeMismatch,
+        Format.INT64,
+        "bad prefix for int: prefix = 0x" + prefix.toString(16) + "; type = " + formatName(prefix)
+      ));
+    }
+    const result = this.readCoercedString();
+    if (result.isErr) {
+      return Result.err<i64>(result.unwrapErr());
+    }
+    const str = result.unwrap();
+    const decimal = parseDecimal(str);
+    if (decimal === null) {
+      return Result.err<i64>(this.fail(
+        DecodeErrorKind.TypeMismatch,
+        Format.INT64,
+        "bad string for int: value = \"" + str + "\""
+      ));
+    } else if (decimal.negative && (decimal.overflow || decimal.magnitude > <u64>i64.MAX_VALUE + 1)) {
+      return Result.err<i64>(this.fail(
+        DecodeErrorKind.Underflow,
+        Format.INT64,
+        "integer underflow: value = " + str + "; type = i64"
+      ));
+    } else if (!decimal.negative && (decimal.overflow || decimal.magnitude > <u64>i64.MAX_VALUE)) {
+      return Result.err<i64>(this.fail(
+        DecodeErrorKind.Overflow,
+        Format.INT64,
+        "integer overflow: value = " + str + "; type = i64"
+      ));
+    }
+    return Result.ok<i64>(decimal.negative ? <i64>(0 - decimal.magnitude) : <i64>decimal.magnitude);
+  }
+
+  private coerceUInt64(prefix: u8): Result<u64> {
+    if (this.isFloat32(prefix) || this.isFloat64(prefix)) {
+      const value = this.isFloat32(prefix) ? <f64>this.reader.getFloat32() : this.reader.getFloat64();
+      if (!isIntegral(value)) {
+        return Result.err<u64>(this.fail(
+          DecodeErrorKind.TypeMismatch,
+          Format.UINT64,
+          "inexact float for unsigned int: value = " + value.toString()
+        ));
+      } else if (value < 0) {
+        return Result.err<u64>(this.fail(
+          DecodeErrorKind.Underflow,
+          Format.UINT64,
+          "integer underflow: value = " + value.toString() + "; type = u64"
+        ));
+      } else if (value >= 18446744073709551616.0) {
+        return Result.err<u64>(this.fail(
+          DecodeErrorKind.Overflow,
+          Format.UINT64,
+          "unsigned integer overflow: value = " + value.toString() + "; type = u64"
+        ));
+      }
+      return Result.ok<u64>(<u64>value);
+    }
+
+    if (!this.isStringPrefix(prefix)) {
+      return Result.err<u64>(this.fail(
+        DecodeErrorKind.TypeMismatch,
+        Format.UINT64,
+        "bad prefix for unsigned int: prefix = 0x" + prefix.toString(16) + "; type = " + formatName(prefix)
+      ));
+    }
+    const result = this.readCoercedString();
+    if (result.isErr) {
+      return Result.err<u64>(result.unwrapErr());
+    }
+    const str = result.unwrap();
+    const decimal = parseDecimal(str);
+    if (decimal === null) {
+      return Result.err<u64>(this.fail(
+        DecodeErrorKind.TypeMismatch,
+        Format.UINT64,
+        "bad string for unsigned int: value = \"" + str + "\""
+      ));
+    } else if (decimal.negative && decimal.magnitude != 0) {
+      return Result.err<u64>(this.fail(
+        DecodeErrorKind.Underflow,
+        Format.UINT64,
+        "integer underflow: value = " + str + "; type = u64"
+      ));
+    } else if (decimal.overflow) {
+      return Result.err<u64>(this.fail(
+        DecodeErrorKind.Overflow,
+        Format.UINT64,
+        "unsigned integer overflow: value = " + str + "; type = u64"
+      ));
     }
+    return Result.ok<u64>(decimal.magnitude);
+  }
+
+  private coerceFloat64(prefix: u8): Result<f64> {
+    if (this.isFixedInt(prefix) || (prefix >= <u8>Format.UINT8 && prefix <= <u8>Format.UINT64)) {
+      this.reader.seek(this.start);
+      const result = this.readUInt64();
+      if (result.isErr) {
+        return Result.err<f64>(result.unwrapErr());
+      }
+      return Result.ok<f64>(<f64>result.unwrap());
+    } else if (this.isNegativeFixedInt(prefix) || (prefix >= <u8>Format.INT8 && prefix <= <u8>Format.INT64)) {
+      this.reader.seek(this.start);
+      const result = this.readInt64();
+      if (result.isErr) {
+        return Result.err<f64>(result.unwrapErr());
+      }
+      return Result.ok<f64>(<f64>result.unwrap());
+    }
+
+    if (!this.isStringPrefix(prefix)) {
+      return Result.err<f64>(this.fail(
+        DecodeErrorKind.TypeMismatch,
+        Format.FLOAT64,
+        "bad prefix for float: prefix = 0x" + prefix.toString(16) + "; type = " + formatName(prefix)
+      ));
+    }
+    const result = this.readCoercedString();
+    if (result.isErr) {
+      return Result.err<f64>(result.unwrapErr());
+    }
+    const str = result.unwrap();
+    if (!isFloatString(str)) {
+      return Result.err<f64>(this.fail(
+        DecodeErrorKind.TypeMismatch,
+        Format.FLOAT64,
+        "bad string for float: value = \"" + str + "\""
+      ));
+    }
+    return Result.ok<f64>(parseFloat(str));
+  }
+
+  // readCoercedString rereads the str whose prefix was just consumed.
+  private readCoercedString(): Result<string> {
+    const start = this.start;
+    this.reader.seek(start);
+    const result = this.readString();
+    this.start = start;
+    return result;
+  }
+
+  private isStringPrefix(prefix: u8): bool {
+    return this.isFixedString(prefix) ||
+      prefix == Format.STR8 ||
+      prefix == Format.STR16 ||
+      prefix == Format.STR32;
   }
 
   readString(): Result<string> {
-    const result = this.readStringLength();
+    const result = this.readStringRaw();
     if (result.isErr) {
       return Result.err<string>(result.unwrapErr());
     }
 
-    const strLen = result.unwrap();
-    const stringBytes = this.reader.getBytes(strLen);
-    return Result.ok<string>(String.UTF8.decode(stringBytes));
+    const raw = result.unwrap();
+    const err = this.allocate(raw.byteLength);
+    if (err !== null) {
+      return Result.err<string>(err);
+    }
+    return Result.ok<string>(raw.toString());
+  }
+
+  // readStringRaw returns the undecoded str payload as a view onto the
+  // source buffer without copying it.
+  readStringRaw(): Result<RawString> {
+    const result = this.readStringLength();
+    if (result.isErr) {
+      return Result.err<RawString>(result.unwrapErr());
+    }
+
+    const length = result.unwrap();
+    if (!this.hasBytes(length)) {
+      return Result.err<RawString>(this.truncated(length));
+    }
+    const bytes = this.reader.getBytesView(<i32>length);
+    if (this.options.checkUtf8) {
+      const invalid = findInvalidUtf8(bytes.dataStart, bytes.length);
+      if (invalid >= 0) {
+        return Result.err<RawString>(this.fail(
+          DecodeErrorKind.InvalidUtf8,
+          Format.STR32,
+          "invalid UTF-8 in str: byte = " + invalid.toString()
+        ));
+      }
+    }
+    return Result.ok<RawString>(new RawString(bytes));
   }
 
   readStringLength(): Result<u32> {
-    const leadByte = this.reader.getUint8();
+    const prefixResult = this.readPrefix();
+    if (prefixResult.isErr) {
+      return Result.err<u32>(prefixResult.unwrapErr());
+    }
+    const leadByte = prefixResult.unwrap();
     if (this.isFixedString(leadByte)) {
-      return Result.ok<u32>(leadByte & 0x1f);
+      return this.checkLength(leadByte & 0x1f, this.options.maxStringLength, "string");
     }
-    if (this.isFixedArray(leadByte)) {
-      return Result.ok<u32>(<u32>(leadByte & Format.FOUR_LEAST_SIG_BITS_IN_BYTE));
+    if (this.isFixedArray(leadByte) && !this.options.strictPrefixes) {
+      return this.checkLength(<u32>(leadByte & Format.FOUR_LEAST_SIG_BITS_IN_BYTE), this.options.maxStringLength, "string");
     }
     switch (leadByte) {
       case Format.STR8:
-        return Result.ok<u32>(<u32>this.reader.getUint8());
+        return this.checkLength(<u32>this.reader.getUint8(), this.options.maxStringLength, "string");
       case Format.STR16:
-        return Result.ok<u32>(<u32>this.reader.getUint16());
+        return this.checkLength(<u32>this.reader.getUint16(), this.options.maxStringLength, "string");
       case Format.STR32:
-        return Result.ok<u32>(this.reader.getUint32());
+        return this.checkLength(this.reader.getUint32(), this.options.maxStringLength, "string");
     }
-    return Result.err<u32>(new RangeError(E_INVALIDLENGTH + ": prefix = 0x" + leadByte.toString(16) + "; type = " + formatName(leadByte)));
+    return Result.err<u32>(this.fail(
+      DecodeErrorKind.TypeMismatch,
+      Format.STR32,
+      "bad prefix for str: prefix = 0x" + leadByte.toString(16) + "; type = " + formatName(leadByte)
+    ));
   }
 
   readBinLength(): Result<u32> {
-    if (this.isNextNil()) {
+    if (!this.options.strictPrefixes && this.isNextNil()) {
       return Result.ok<u32>(0);
     }
-    const leadByte = this.reader.getUint8();
-    if (this.isFixedArray(leadByte)) {
-      return Result.ok<u32>(<u32>(leadByte & Format.FOUR_LEAST_SIG_BITS_IN_BYTE));
+    const prefixResult = this.readPrefix();
+    if (prefixResult.isErr) {
+      return Result.err<u32>(prefixResult.unwrapErr());
+    }
+    const leadByte = prefixResult.unwrap();
+    if (this.isFixedArray(leadByte) && !this.options.strictPrefixes) {
+      return this.checkLength(<u32>(leadByte & Format.FOUR_LEAST_SIG_BITS_IN_BYTE), this.options.maxBinLength, "bin");
     }
     switch (leadByte) {
       case Format.BIN8:
-        return Result.ok<u32>(<u32>this.reader.getUint8());
+        return this.checkLength(<u32>this.reader.getUint8(), this.options.maxBinLength, "bin");
       case Format.BIN16:
-        return Result.ok<u32>(<u32>this.reader.getUint16());
+        return this.checkLength(<u32>this.reader.getUint16(), this.options.maxBinLength, "bin");
       case Format.BIN32:
-        return Result.ok<u32>(this.reader.getUint32());
+        return this.checkLength(this.reader.getUint32(), this.options.maxBinLength, "bin");
     }
-    return Result.err<u32>(new RangeError(E_INVALIDLENGTH + ": prefix = 0x" + leadByte.toString(16) + "; type = " + formatName(leadByte)));
+    return Result.err<u32>(this.fail(
+      DecodeErrorKind.TypeMismatch,
+      Format.BIN32,
+      "bad prefix for bin: prefix = 0x" + leadByte.toString(16) + "; type = " + formatName(leadByte)
+    ));
   }
 
   readByteArray(): Result<ArrayBuffer> {
@@ -428,34 +1251,443 @@ export class SafeDecoder {
     }
 
     const arrLength = result.unwrap();
-    const arrBytes = this.reader.getBytes(arrLength);
+    if (!this.hasBytes(arrLength)) {
+      return Result.err<ArrayBuffer>(this.truncated(arrLength));
+    }
+    const err = this.allocate(arrLength);
+    if (err !== null) {
+      return Result.err<ArrayBuffer>(err);
+    }
+    const arrBytes = this.reader.getBytes(<i32>arrLength);
     return Result.ok<ArrayBuffer>(arrBytes);
   }
 
+  // readByteArrayView returns the bin payload as a view onto the source
+  // buffer without copying it.
+  readByteArrayView(): Result<Uint8Array> {
+    const result = this.readBinLength();
+    if (result.isErr) {
+      return Result.err<Uint8Array>(result.unwrapErr());
+    }
+    const length = result.unwrap();
+    if (!this.hasBytes(length)) {
+      return Result.err<Uint8Array>(this.truncated(length));
+    }
+    return Result.ok<Uint8Array>(this.reader.getBytesView(<i32>length));
+  }
+
   readArraySize(): Result<u32> {
-    const leadByte = this.reader.getUint8();
+    const prefixResult = this.readPrefix();
+    if (prefixResult.isErr) {
+      return Result.err<u32>(prefixResult.unwrapErr());
+    }
+    const leadByte = prefixResult.unwrap();
     if (this.isFixedArray(leadByte)) {
-      return Result.ok<u32>(<u32>(leadByte & Format.FOUR_LEAST_SIG_BITS_IN_BYTE));
+      return this.checkCollection(<u32>(leadByte & Format.FOUR_LEAST_SIG_BITS_IN_BYTE), 8);
     } else if (leadByte == Format.ARRAY16) {
-      return Result.ok<u32>(<u32>this.reader.getUint16());
+      return this.checkCollection(<u32>this.reader.getUint16(), 8);
     } else if (leadByte == Format.ARRAY32) {
-      return Result.ok<u32>(this.reader.getUint32());
-    } else if (leadByte == Format.NIL) {
+      return this.checkCollection(this.reader.getUint32(), 8);
+    } else if (leadByte == Format.NIL && !this.options.strictPrefixes) {
       return Result.ok<u32>(0);
     }
-    return Result.err<u32>(new RangeError(E_INVALIDLENGTH + ": prefix = 0x" + leadByte.toString(16) + "; type = " + formatName(leadByte)));
+    return Result.err<u32>(this.fail(
+      DecodeErrorKind.TypeMismatch,
+      Format.ARRAY32,
+      "bad prefix for array: prefix = 0x" + leadByte.toString(16) + "; type = " + formatName(leadByte)
+    ));
   }
 
   readMapSize(): Result<u32> {
-    const leadByte = this.reader.getUint8();
+    const prefixResult = this.readPrefix();
+    if (prefixResult.isErr) {
+      return Result.err<u32>(prefixResult.unwrapErr());
+    }
+    const leadByte = prefixResult.unwrap();
     if (this.isFixedMap(leadByte)) {
-      return Result.ok<u32>(<u32>(leadByte & Format.FOUR_LEAST_SIG_BITS_IN_BYTE));
+      return this.checkCollection(<u32>(leadByte & Format.FOUR_LEAST_SIG_BITS_IN_BYTE), 16);
     } else if (leadByte == Format.MAP16) {
-      return Result.ok<u32>(<u32>this.reader.getUint16());
+      return this.checkCollection(<u32>this.reader.getUint16(), 16);
     } else if (leadByte == Format.MAP32) {
-      return Result.ok<u32>(this.reader.getUint32());
+      return this.checkCollection(this.reader.getUint32(), 16);
+    }
+    return Result.err<u32>(this.fail(
+      DecodeErrorKind.TypeMismatch,
+      Format.MAP32,
+      "bad prefix for map: prefix = 0x" + leadByte.toString(16) + "; type = " + formatName(leadByte)
+    ));
+  }
+
+  // readRaw returns the exact bytes of the next object, nested values
+  // included, without decoding it. It is skip with capture, so the bytes can
+  // be stored and later passed to Writer.writeRaw unchanged.
+  readRaw(): Result<ArrayBuffer> {
+    const start = this.reader.position;
+    const skipped = this.skip();
+    if (skipped.isErr) {
+      return Result.err<ArrayBuffer>(skipped.unwrapErr());
+    }
+    const length = this.reader.position - start;
+    const err = this.allocate(length);
+    if (err !== null) {
+      return Result.err<ArrayBuffer>(err);
     }
-    return Result.err<u32>(new RangeError(E_INVALIDLENGTH + ": prefix = 0x" + leadByte.toString(16) + "; type = " + formatName(leadByte)));
+    this.reader.seek(start);
+    return Result.ok<ArrayBuffer>(this.reader.getBytes(length));
+  }
+
+  // readStructAsArray starts a record written with writeStructAsArray and
+  // returns the number of fields present. Fields at or past the count were
+  // not written and keep their defaults; call skipTrailingFields once the
+  // known fields are read.
+  readStructAsArray(): Result<u32> {
+    return this.readArraySize();
+  }
+
+  // skipTrailingFields skips the fields of a positional record that a newer
+  // writer appended after the known ones.
+  skipTrailingFields(count: u32, known: u32): Result<bool> {
+    for (let i = known; i < count; i++) {
+      const result = this.skip();
+      if (result.isErr) {
+        return result;
+      }
+    }
+    return Result.ok<bool>(true);
+  }
+
+  // readFieldTag reads the key of a field in the integer-tagged map layout.
+  // Unknown tags are left to the caller, which skips their value.
+  readFieldTag(): Result<u32> {
+    this.start = this.reader.position;
+    if (!this.hasBytes(1)) {
+      return Result.err<u32>(this.truncated(1));
+    }
+    const prefix = this.reader.peekUint8();
+    if (
+      !this.isFixedInt(prefix) &&
+      !this.isNegativeFixedInt(prefix) &&
+      !(prefix >= <u8>Format.UINT8 && prefix <= <u8>Format.INT64)
+    ) {
+      return Result.err<u32>(this.fail(
+        DecodeErrorKind.TypeMismatch,
+        Format.UINT32,
+        "bad prefix for field tag: prefix = 0x" + prefix.toString(16) + "; type = " + formatName(prefix)
+      ));
+    }
+    return this.readUInt32();
+  }
+
+  readExtHeader(): Result<ExtHeader> {
+    const prefixResult = this.readPrefix();
+    if (prefixResult.isErr) {
+      return Result.err<ExtHeader>(prefixResult.unwrapErr());
+    }
+    const leadByte = prefixResult.unwrap();
+    let length: u32 = 0;
+    switch (leadByte) {
+      case Format.FIXEXT1:
+        length = 1;
+        break;
+      case Format.FIXEXT2:
+        length = 2;
+        break;
+      case Format.FIXEXT4:
+        length = 4;
+        break;
+      case Format.FIXEXT8:
+        length = 8;
+        break;
+      case Format.FIXEXT16:
+        length = 16;
+        break;
+      case Format.EXT8:
+        length = <u32>this.reader.getUint8();
+        break;
+      case Format.EXT16:
+        length = <u32>this.reader.getUint16();
+        break;
+      case Format.EXT32:
+        length = this.reader.getUint32();
+        break;
+      default:
+        return Result.err<ExtHeader>(this.fail(
+          DecodeErrorKind.TypeMismatch,
+          Format.EXT32,
+          "bad prefix for ext: prefix = 0x" + leadByte.toString(16) + "; type = " + formatName(leadByte)
+        ));
+    }
+    const checked = this.checkLength(length, this.options.maxBinLength, "ext");
+    if (checked.isErr) {
+      return Result.err<ExtHeader>(checked.unwrapErr());
+    }
+    const type = this.reader.getInt8();
+    return Result.ok<ExtHeader>(new ExtHeader(type, length));
+  }
+
+  readExt(): Result<Ext> {
+    const result = this.readExtHeader();
+    if (result.isErr) {
+      return Result.err<Ext>(result.unwrapErr());
+    }
+
+    const header = result.unwrap();
+    if (!this.hasBytes(header.length)) {
+      return Result.err<Ext>(this.truncated(header.length));
+    }
+    const err = this.allocate(header.length);
+    if (err !== null) {
+      return Result.err<Ext>(err);
+    }
+    const data = this.reader.getBytes(<i32>header.length);
+    return Result.ok<Ext>(new Ext(header.type, data));
+  }
+
+  readExtValue<T>(registry: ExtensionRegistry): Result<T> {
+    const result = this.readExt();
+    if (result.isErr) {
+      return Result.err<T>(result.unwrapErr());
+    }
+
+    const ext = result.unwrap();
+    const extension = registry.forType<T>(ext.type);
+    if (extension === null) {
+      return Result.err<T>(this.fail(
+        DecodeErrorKind.TypeMismatch,
+        Format.EXT32,
+        "no extension registered for ext: type = " + ext.type.toString()
+      ));
+    }
+    return Result.ok<T>(extension.decode(ext.data));
+  }
+
+  readValue(): Result<MsgPackValue> {
+    this.start = this.reader.position;
+    if (!this.hasBytes(1)) {
+      return Result.err<MsgPackValue>(this.truncated(1));
+    }
+    const leadByte = this.reader.peekUint8();
+    if (this.isFixedInt(leadByte)) {
+      this.reader.discard(1);
+      return Result.ok<MsgPackValue>(new MsgPackUInt(<u64>leadByte));
+    } else if (this.isNegativeFixedInt(leadByte)) {
+      this.reader.discard(1);
+      return Result.ok<MsgPackValue>(new MsgPackInt(<i64>(<i8>leadByte)));
+    } else if (this.isFixedString(leadByte)) {
+      return this.readStrValue();
+    } else if (this.isFixedArray(leadByte)) {
+      return this.readArrayValue();
+    } else if (this.isFixedMap(leadByte)) {
+      return this.readMapValue();
+    }
+
+    switch (leadByte) {
+      case Format.NIL:
+        this.reader.discard(1);
+        return Result.ok<MsgPackValue>(new MsgPackNil());
+      case Format.TRUE:
+      case Format.FALSE: {
+        const result = this.readBool();
+        if (result.isErr) {
+          return Result.err<MsgPackValue>(result.unwrapErr());
+        }
+        return Result.ok<MsgPackValue>(new MsgPackBool(result.unwrap()));
+      }
+      case Format.FLOAT32: {
+        const result = this.readFloat32();
+        if (result.isErr) {
+          return Result.err<MsgPackValue>(result.unwrapErr());
+        }
+        return Result.ok<MsgPackValue>(new MsgPackFloat(<f64>result.unwrap(), true));
+      }
+      case Format.FLOAT64: {
+        const result = this.readFloat64();
+        if (result.isErr) {
+          return Result.err<MsgPackValue>(result.unwrapErr());
+        }
+        return Result.ok<MsgPackValue>(new MsgPackFloat(result.unwrap()));
+      }
+      case Format.UINT8:
+      case Format.UINT16:
+      case Format.UINT32:
+      case Format.UINT64: {
+        const result = this.readUInt64();
+        if (result.isErr) {
+          return Result.err<MsgPackValue>(result.unwrapErr());
+        }
+        return Result.ok<MsgPackValue>(new MsgPackUInt(result.unwrap()));
+      }
+      case Format.INT8:
+      case Format.INT16:
+      case Format.INT32:
+      case Format.INT64: {
+        const result = this.readInt64();
+        if (result.isErr) {
+          return Result.err<MsgPackValue>(result.unwrapErr());
+        }
+        return Result.ok<MsgPackValue>(new MsgPackInt(result.unwrap()));
+      }
+      case Format.STR8:
+      case Format.STR16:
+      case Format.STR32:
+        return this.readStrValue();
+      case Format.BIN8:
+      case Format.BIN16:
+      case Format.BIN32: {
+        const result = this.readByteArray();
+        if (result.isErr) {
+          return Result.err<MsgPackValue>(result.unwrapErr());
+        }
+        return Result.ok<MsgPackValue>(new MsgPackBin(result.unwrap()));
+      }
+      case Format.ARRAY16:
+      case Format.ARRAY32:
+        return this.readArrayValue();
+      case Format.MAP16:
+      case Format.MAP32:
+        return this.readMapValue();
+      case Format.FIXEXT1:
+      case Format.FIXEXT2:
+      case Format.FIXEXT4:
+      case Format.FIXEXT8:
+      case Format.FIXEXT16:
+      case Format.EXT8:
+      case Format.EXT16:
+      case Format.EXT32: {
+        const result = this.readExt();
+        if (result.isErr) {
+          return Result.err<MsgPackValue>(result.unwrapErr());
+        }
+        const ext = result.unwrap();
+        return Result.ok<MsgPackValue>(new MsgPackExt(ext.type, ext.data));
+      }
+    }
+    this.reader.discard(1);
+    return Result.err<MsgPackValue>(this.fail(
+      DecodeErrorKind.TypeMismatch,
+      Format.ERROR,
+      "invalid prefix, bad encoding for val: " + leadByte.toString()
+    ));
+  }
+
+  private readStrValue(): Result<MsgPackValue> {
+    const result = this.readString();
+    if (result.isErr) {
+      return Result.err<MsgPackValue>(result.unwrapErr());
+    }
+    return Result.ok<MsgPackValue>(new MsgPackStr(result.unwrap()));
+  }
+
+  private readArrayValue(): Result<MsgPackValue> {
+    const result = this.readArraySize();
+    if (result.isErr) {
+      return Result.err<MsgPackValue>(result.unwrapErr());
+    }
+
+    const size = result.unwrap();
+    const nested = this.enterRecursive();
+    if (nested.isErr) {
+      return Result.err<MsgPackValue>(nested.unwrapErr());
+    }
+    const items = new Array<MsgPackValue>();
+    for (let i: u32 = 0; i < size; i++) {
+      const itemResult = this.readValue();
+      if (itemResult.isErr) {
+        this.exitNested();
+        return itemResult;
+      }
+      items.push(itemResult.unwrap());
+    }
+    this.exitNested();
+    return Result.ok<MsgPackValue>(new MsgPackArray(items));
+  }
+
+  private readMapValue(): Result<MsgPackValue> {
+    const result = this.readMapSize();
+    if (result.isErr) {
+      return Result.err<MsgPackValue>(result.unwrapErr());
+    }
+
+    const size = result.unwrap();
+    const nested = this.enterRecursive();
+    if (nested.isErr) {
+      return Result.err<MsgPackValue>(nested.unwrapErr());
+    }
+    const m = new MsgPackMap();
+    for (let i: u32 = 0; i < size; i++) {
+      const keyResult = this.readValue();
+      if (keyResult.isErr) {
+        this.exitNested();
+        return keyResult;
+      }
+      const valueResult = this.readValue();
+      if (valueResult.isErr) {
+        this.exitNested();
+        return valueResult;
+      }
+      m.set(keyResult.unwrap(), valueResult.unwrap());
+    }
+    this.exitNested();
+    return Result.ok<MsgPackValue>(m);
+  }
+
+  readTimestamp(): Result<Timestamp> {
+    const result = this.readExtHeader();
+    if (result.isErr) {
+      return Result.err<Timestamp>(result.unwrapErr());
+    }
+
+    const header = result.unwrap();
+    if (header.type != TIMESTAMP_EXT_TYPE) {
+      return Result.err<Timestamp>(this.fail(
+        DecodeErrorKind.TypeMismatch,
+        Format.EXT32,
+        "bad ext type for timestamp: type = " + header.type.toString()
+      ));
+    }
+    if (!this.hasBytes(header.length)) {
+      return Result.err<Timestamp>(this.truncated(header.length));
+    }
+    switch (header.length) {
+      case 4:
+        return Result.ok<Timestamp>(new Timestamp(<i64>this.reader.getUint32(), 0));
+      case 8: {
+        const value = this.reader.getUint64();
+        const nanos = <u32>(value >> 34);
+        if (!isValidNanoseconds(nanos)) {
+          return Result.err<Timestamp>(this.fail(
+            DecodeErrorKind.Overflow,
+            Format.EXT32,
+            "invalid timestamp: nanoseconds = " + nanos.toString()
+          ));
+        }
+        return Result.ok<Timestamp>(new Timestamp(<i64>(value & 0x00000003ffffffff), nanos));
+      }
+      case 12: {
+        const nanos = this.reader.getUint32();
+        if (!isValidNanoseconds(nanos)) {
+          return Result.err<Timestamp>(this.fail(
+            DecodeErrorKind.Overflow,
+            Format.EXT32,
+            "invalid timestamp: nanoseconds = " + nanos.toString()
+          ));
+        }
+        return Result.ok<Timestamp>(new Timestamp(this.reader.getInt64(), nanos));
+      }
+    }
+    return Result.err<Timestamp>(this.fail(
+      DecodeErrorKind.InvalidLength,
+      Format.EXT32,
+      E_INVALIDLENGTH + ": timestamp length = " + header.length.toString()
+    ));
+  }
+
+  readDate(): Result<Date> {
+    const result = this.readTimestamp();
+    if (result.isErr) {
+      return Result.err<Date>(result.unwrapErr());
+    }
+    return Result.ok<Date>(result.unwrap().toDate());
   }
 
   isFloat32(u: u8): bool {
@@ -490,130 +1722,337 @@ export class SafeDecoder {
     return u == Format.NIL;
   }
 
-  skip(): void {
-    // getSize handles discarding 'msgpack header' info
-    let numberOfObjectsToDiscard = this.getSize();
+  skip(): Result<bool> {
+    // remaining children of each open array or map, innermost last
+    const pending = new Array<u64>();
+    do {
+      // getSize handles discarding 'msgpack header' info
+      const result = this.getSize();
+      if (result.isErr) {
+        return Result.err<bool>(result.unwrapErr());
+      }
 
-    while (numberOfObjectsToDiscard > 0) {
-      this.skip(); // discard next object
-      numberOfObjectsToDiscard--;
-    }
+      if (pending.length > 0) {
+        pending[pending.length - 1]--;
+      }
+      const children = result.unwrap();
+      if (children > 0) {
+        if (<u64>this.depth + <u64>pending.length >= <u64>this.options.maxDepth) {
+          return Result.err<bool>(this.fail(
+            DecodeErrorKind.LimitExceeded,
+            Format.ERROR,
+            "limit exceeded: depth = " + (this.depth + pending.length + 1).toString() + "; max = " + this.options.maxDepth.toString()
+          ));
+        }
+        pending.push(children);
+      }
+      while (pending.length > 0 && pending[pending.length - 1] == 0) {
+        pending.pop();
+      }
+    } while (pending.length > 0);
+    return Result.ok<bool>(true);
   }
 
-  getSize(): i32 {
+  // getSize discards the next object's header and any scalar payload and
+  // returns the number of nested objects that follow it.
+  getSize(): Result<u64> {
+    this.start = this.reader.position;
+    if (!this.hasBytes(1)) {
+      return Result.err<u64>(this.truncated(1));
+    }
     const leadByte = this.reader.getUint8(); // will discard one
-    let objectsToDiscard = <i32>0;
-    // Handled for fixed values
-    if (this.isNegativeFixedInt(leadByte)) {
-      // noop, will just discard the leadbyte
-    } else if (this.isFixedInt(leadByte)) {
-      // noop, will just discard the leadbyte
-    } else if (this.isFixedString(leadByte)) {
-      let strLength = leadByte & 0x1f;
-      this.reader.discard(strLength);
-    } else if (this.isFixedArray(leadByte)) {
-      // TODO handle overflow
-      objectsToDiscard = <i32>(leadByte & Format.FOUR_LEAST_SIG_BITS_IN_BYTE);
-    } else if (this.isFixedMap(leadByte)) {
-      // TODO handle overflow
-      objectsToDiscard =
-        2 * <i32>(leadByte & Format.FOUR_LEAST_SIG_BITS_IN_BYTE);
-    } else {
-      switch (leadByte) {
-        case Format.NIL:
-          break;
-        case Format.TRUE:
-          break;
-        case Format.FALSE:
-          break;
-        case Format.BIN8:
-          this.reader.discard(<i32>this.reader.getUint8());
-          break;
-        case Format.BIN16:
-          this.reader.discard(<i32>this.reader.getUint16());
-          break;
-        case Format.BIN32:
-          this.reader.discard(<i32>this.reader.getUint32());
-          break;
-        case Format.FLOAT32:
-          this.reader.discard(4);
-          break;
-        case Format.FLOAT64:
-          this.reader.discard(8);
-          break;
-        case Format.UINT8:
-          this.reader.discard(1);
-          break;
-        case Format.UINT16:
-          this.reader.discard(2);
-          break;
-        case Format.UINT32:
-          this.reader.discard(4);
-          break;
-        case Format.UINT64:
-          this.reader.discard(8);
-          break;
-        case Format.INT8:
-          this.reader.discard(1);
-          break;
-        case Format.INT16:
-          this.reader.discard(2);
-          break;
-        case Format.INT32:
-          this.reader.discard(4);
-          break;
-        case Format.INT64:
-          this.reader.discard(8);
-          break;
-        case Format.FIXEXT1:
-          this.reader.discard(2);
-          break;
-        case Format.FIXEXT2:
-          this.reader.discard(3);
-          break;
-        case Format.FIXEXT4:
-          this.reader.discard(5);
-          break;
-        case Format.FIXEXT8:
-          this.reader.discard(9);
-          break;
-        case Format.FIXEXT16:
-          this.reader.discard(17);
-          break;
+    if (!isValidPrefix(leadByte)) {
+      return Result.err<u64>(this.fail(
+        DecodeErrorKind.TypeMismatch,
+        Format.ERROR,
+        "invalid prefix, bad encoding for val: " + leadByte.toString()
+      ));
+    }
+
+    const width = lengthWidth(leadByte);
+    let length: u32 = 0;
+    if (width > 0) {
+      let max = this.options.maxCollectionLength;
+      let kind = "collection";
+      switch (formatOf(leadByte)) {
         case Format.STR8:
-          this.reader.discard(this.reader.getUint8());
-          break;
         case Format.STR16:
-          this.reader.discard(this.reader.getUint16());
-          break;
         case Format.STR32:
-          // TODO overflow, need to modify discard and underlying array buffer
-          this.reader.discard(this.reader.getUint32());
-          break;
-        case Format.ARRAY16:
-          //TODO OVERFLOW
-          objectsToDiscard = <i32>this.reader.getUint16();
+          max = this.options.maxStringLength;
+          kind = "string";
           break;
-        case Format.ARRAY32:
-          //TODO OVERFLOW
-          objectsToDiscard = <i32>this.reader.getUint32();
-          break;
-        case Format.MAP16:
-          //TODO OVERFLOW
-          objectsToDiscard = 2 * <i32>this.reader.getUint16();
+        case Format.BIN8:
+        case Format.BIN16:
+        case Format.BIN32:
+          max = this.options.maxBinLength;
+          kind = "bin";
           break;
-        case Format.MAP32:
-          //TODO OVERFLOW
-          objectsToDiscard = 2 * <i32>this.reader.getUint32();
+        case Format.EXT8:
+        case Format.EXT16:
+        case Format.EXT32:
+          max = this.options.maxBinLength;
+          kind = "ext";
           break;
-        default:
-          throw new TypeError(
-            "invalid prefix, bad encoding for val: " + leadByte.toString()
-          );
       }
+      const result = this.readLengthField(width, max, kind);
+      if (result.isErr) {
+        return Result.err<u64>(result.unwrapErr());
+      }
+      length = result.unwrap();
+    }
+
+    // the rest of the header, e.g. an int or the ext type, and the payload
+    const discarded = this.discardPayload(<u64>(headerWidth(leadByte) - width) + payloadSize(leadByte, length));
+    if (discarded.isErr) {
+      return discarded;
+    }
+    return Result.ok<u64>(childCount(leadByte, length));
+  }
+
+  private hasBytes(length: u64): bool {
+    return length <= <u64>this.remaining;
+  }
+
+  // readPrefix starts a read: it records the offset of the value for
+  // DecodeError and consumes its prefix byte once the prefix and the header
+  // that follows it are both present.
+  private readPrefix(): Result<u8> {
+    this.start = this.reader.position;
+    if (!this.hasBytes(1)) {
+      return Result.err<u8>(this.truncated(1));
+    }
+    const prefix = this.reader.peekUint8();
+    const length = 1 + headerWidth(prefix);
+    if (!this.hasBytes(length)) {
+      return Result.err<u8>(this.truncated(length));
     }
+    this.reader.discard(1);
+    return Result.ok<u8>(prefix);
+  }
+
+  private readLengthField(size: i32, max: u32, kind: string): Result<u32> {
+    if (!this.hasBytes(size)) {
+      return Result.err<u32>(this.truncated(size));
+    }
+    let length: u32;
+    if (size == 1) {
+      length = <u32>this.reader.getUint8();
+    } else if (size == 2) {
+      length = <u32>this.reader.getUint16();
+    } else {
+      length = this.reader.getUint32();
+    }
+    return this.checkLength(length, max, kind);
+  }
 
-    return objectsToDiscard;
+  private truncated(length: u64): DecodeError {
+    return this.fail(
+      DecodeErrorKind.Truncated,
+      Format.ERROR,
+      E_INDEXOUTOFRANGE + ": needs " + length.toString() + " more byte(s)"
+    );
+  }
+
+  private discardPayload(length: u64): Result<u64> {
+    if (!this.hasBytes(length)) {
+      return Result.err<u64>(this.truncated(length));
+    }
+    // hasBytes bounds length by the buffer size, so it fits in an i32
+    this.reader.discard(<i32>length);
+    return Result.ok<u64>(0);
+  }
+
+  // checkCanonical reports whether the buffer holds exactly one object in
+  // the form Encoder's canonical mode writes: the smallest width for every
+  // integer and length, map keys sorted by their encoded bytes and NaN as the
+  // quiet NaN.
+  checkCanonical(): Result<bool> {
+    const result = this.checkCanonicalValue();
+    if (result.isErr) {
+      return result;
+    }
+    if (this.hasMore()) {
+      this.start = this.reader.position;
+      return Result.err<bool>(this.fail(
+        DecodeErrorKind.NonCanonical,
+        Format.ERROR,
+        "non-canonical encoding: trailing bytes after object"
+      ));
+    }
+    return result;
+  }
+
+  private checkCanonicalValue(): Result<bool> {
+    const prefixResult = this.readPrefix();
+    if (prefixResult.isErr) {
+      return Result.err<bool>(prefixResult.unwrapErr());
+    }
+    const leadByte = prefixResult.unwrap();
+    if (!isValidPrefix(leadByte)) {
+      return Result.err<bool>(this.fail(
+        DecodeErrorKind.TypeMismatch,
+        Format.ERROR,
+        "invalid prefix, bad encoding for val: " + leadByte.toString()
+      ));
+    }
+
+    // readPrefix has checked that the header after leadByte is present
+    const format = formatOf(leadByte);
+    switch (format) {
+      case Format.FLOAT32: {
+        const bits = this.reader.getUint32();
+        if (isNaN(reinterpret<f32>(bits)) && bits != CANONICAL_NAN32) {
+          return this.nonCanonical(leadByte, "NaN payload");
+        }
+        return Result.ok<bool>(true);
+      }
+      case Format.FLOAT64: {
+        const bits = this.reader.getUint64();
+        if (isNaN(reinterpret<f64>(bits)) && bits != CANONICAL_NAN64) {
+          return this.nonCanonical(leadByte, "NaN payload");
+        }
+        return Result.ok<bool>(true);
+      }
+      case Format.UINT8:
+        return this.checkWidth(leadByte, this.reader.getUint8() >= 1 << 7);
+      case Format.UINT16:
+        return this.checkWidth(leadByte, this.reader.getUint16() > <u16>u8.MAX_VALUE);
+      case Format.UINT32:
+        return this.checkWidth(leadByte, this.reader.getUint32() > <u32>u16.MAX_VALUE);
+      case Format.UINT64:
+        return this.checkWidth(leadByte, this.reader.getUint64() > <u64>u32.MAX_VALUE);
+      case Format.INT8:
+        return this.checkWidth(leadByte, this.reader.getInt8() < -32);
+      case Format.INT16: {
+        const value = this.reader.getInt16();
+        return this.checkWidth(leadByte, value > <i16>i8.MAX_VALUE || value < <i16>i8.MIN_VALUE);
+      }
+      case Format.INT32: {
+        const value = this.reader.getInt32();
+        return this.checkWidth(leadByte, value > <i32>i16.MAX_VALUE || value < <i32>i16.MIN_VALUE);
+      }
+      case Format.INT64: {
+        const value = this.reader.getInt64();
+        return this.checkWidth(leadByte, value > <i64>i32.MAX_VALUE || value < <i64>i32.MIN_VALUE);
+      }
+      case Format.FIXARRAY:
+        return this.checkCanonicalArray(<u32>(leadByte & Format.FOUR_LEAST_SIG_BITS_IN_BYTE));
+      case Format.FIXMAP:
+        return this.checkCanonicalMap(<u32>(leadByte & Format.FOUR_LEAST_SIG_BITS_IN_BYTE));
+    }
+
+    const width = lengthWidth(leadByte);
+    let length: u32 = 0;
+    if (width > 0) {
+      length = this.readLengthField(width, u32.MAX_VALUE, "").unwrap();
+    }
+    switch (format) {
+      case Format.ARRAY16:
+      case Format.ARRAY32:
+        if (!isSmallestLength(leadByte, length)) {
+          return this.nonCanonical(leadByte, "length");
+        }
+        return this.checkCanonicalArray(length);
+      case Format.MAP16:
+      case Format.MAP32:
+        if (!isSmallestLength(leadByte, length)) {
+          return this.nonCanonical(leadByte, "length");
+        }
+        return this.checkCanonicalMap(length);
+    }
+    // nil, bool, fixint, str, bin and ext, whose type byte is discarded with
+    // the data
+    return this.discardCanonical(
+      leadByte,
+      <u64>(headerWidth(leadByte) - width) + payloadSize(leadByte, length),
+      isSmallestLength(leadByte, length)
+    );
+  }
+
+  // discardCanonical discards a str, bin or ext payload, failing when it is
+  // truncated, and then checks the width of its header.
+  private discardCanonical(leadByte: u8, length: u64, isSmallest: bool): Result<bool> {
+    const discarded = this.discardPayload(length);
+    if (discarded.isErr) {
+      return Result.err<bool>(discarded.unwrapErr());
+    }
+    return this.checkWidth(leadByte, isSmallest);
+  }
+
+  private checkWidth(leadByte: u8, isSmallest: bool): Result<bool> {
+    if (isSmallest) {
+      return Result.ok<bool>(true);
+    }
+    return this.nonCanonical(leadByte, "width");
+  }
+
+  private nonCanonical(leadByte: u8, reason: string): Result<bool> {
+    return Result.err<bool>(this.fail(
+      DecodeErrorKind.NonCanonical,
+      Format.ERROR,
+      "non-canonical encoding: " + reason + "; prefix = 0x" + leadByte.toString(16) + "; type = " + formatName(leadByte)
+    ));
+  }
+
+  private checkCanonicalArray(length: u32): Result<bool> {
+    const nested = this.enterRecursive();
+    if (nested.isErr) {
+      return nested;
+    }
+    for (let i: u32 = 0; i < length; i++) {
+      const result = this.checkCanonicalValue();
+      if (result.isErr) {
+        this.exitNested();
+        return result;
+      }
+    }
+    this.exitNested();
+    return Result.ok<bool>(true);
+  }
+
+  private checkCanonicalMap(length: u32): Result<bool> {
+    const nested = this.enterRecursive();
+    if (nested.isErr) {
+      return nested;
+    }
+    let previousStart = 0;
+    let previousLength = 0;
+    for (let i: u32 = 0; i < length; i++) {
+      const keyStart = this.reader.position;
+      const keyResult = this.checkCanonicalValue();
+      if (keyResult.isErr) {
+        this.exitNested();
+        return keyResult;
+      }
+      const keyLength = this.reader.position - keyStart;
+      if (
+        i > 0 &&
+        compareBytes(
+          this.reader.dataStart + previousStart,
+          previousLength,
+          this.reader.dataStart + keyStart,
+          keyLength
+        ) >= 0
+      ) {
+        this.exitNested();
+        this.start = keyStart;
+        return Result.err<bool>(this.fail(
+          DecodeErrorKind.NonCanonical,
+          Format.ERROR,
+          "non-canonical encoding: map keys are not sorted"
+        ));
+      }
+      previousStart = keyStart;
+      previousLength = keyLength;
+
+      const valueResult = this.checkCanonicalValue();
+      if (valueResult.isErr) {
+        this.exitNested();
+        return valueResult;
+      }
+    }
+    this.exitNested();
+    return Result.ok<bool>(true);
   }
 
   readArray<T>(fn: (decoder: SafeDecoder, i?: u32) => Result<T>): Result<Array<T>> {
@@ -623,14 +2062,20 @@ export class SafeDecoder {
     }
 
     const size = result.unwrap();
+    const nested = this.enterNested();
+    if (nested.isErr) {
+      return Result.err<Array<T>>(nested.unwrapErr());
+    }
     let a = new Array<T>();
     for (let i: u32 = 0; i < size; i++) {
       const itemResult = fn(this, i);
       if (itemResult.isErr) {
+        this.exitNested();
         return Result.err<Array<T>>(itemResult.unwrapErr());
       }
       a.push(itemResult.unwrap());
     }
+    this.exitNested();
     return Result.ok<Array<T>>(a);
   }
 
@@ -657,18 +2102,25 @@ export class SafeDecoder {
     }
 
     const size = result.unwrap();
+    const nested = this.enterNested();
+    if (nested.isErr) {
+      return Result.err<Map<K, V>>(nested.unwrapErr());
+    }
     let m = new Map<K, V>();
     for (let i: u32 = 0; i < size; i++) {
       const keyResult = keyFn(this, i);
       if (keyResult.isErr) {
+        this.exitNested();
         return Result.err<Map<K, V>>(keyResult.unwrapErr());
       }
       const valueResult = valueFn(this, i);
       if (valueResult.isErr) {
+        this.exitNested();
         return Result.err<Map<K, V>>(valueResult.unwrapErr());
       }
       m.set(keyResult.unwrap(), valueResult.unwrap());
     }
+    this.exitNested();
     return Result.ok<Map<K, V>>(m);
   }
 
@@ -688,3 +2140,33 @@ export class SafeDecoder {
     }
   }
 }
+
+// headerWidth returns the number of bytes between prefix and any
+// variable-length payload: the value of a fixed-size scalar, the length field
+// of a str, bin, array or map, or the length field and type byte of an ext.
+// isSmallestLength reports whether no narrower header than leadByte's could
+// hold length, as canonical encoding requires.
+function isSmallestLength(leadByte: u8, length: u32): bool {
+  switch (leadByte) {
+    case Format.STR8:
+      return length >= 32;
+    case Format.EXT8:
+      // lengths 1, 2, 4, 8 and 16 have a fixext
+      return length != 1 && length != 2 && length != 4 && length != 8 && length != 16;
+    case Format.ARRAY16:
+    case Format.MAP16:
+      return length >= 16;
+  }
+  switch (lengthWidth(leadByte)) {
+    case 2:
+      return length > <u32>u8.MAX_VALUE;
+    case 4:
+      return length > <u32>u16.MAX_VALUE;
+  }
+  // bin8 and values without a length field
+  return true;
+}
+
+function isIntegral(value: f64): bool {
+  return isFinite(value) && Math.trunc(value) == value;
+}
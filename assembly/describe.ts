@@ -0,0 +1,219 @@
+import { DataReader } from "./datareader";
+import {
+  Format,
+  childCount,
+  formatName,
+  formatOf,
+  headerWidth,
+  isValidPrefix,
+  lengthWidth,
+  payloadSize,
+} from "./format";
+
+const MAX_RAW_BYTES = 8;
+const RAW_COLUMN_WIDTH = MAX_RAW_BYTES * 3 + 2;
+const MAX_STRING_CHARS = 48;
+
+// describe renders one line per token of an encoded buffer:
+//
+//   000000  82                        fixmap(2)
+//   000001  a2 69 64                    fixstr(2) "id"
+//   000004  cd 01 2c                    uint16 300
+//
+// Columns are the byte offset, the raw bytes of the token (truncated to 8),
+// the format name indented by nesting depth and the decoded scalar value.
+// Concatenated objects are described one after another. Malformed input
+// ends the output with an "error:" line instead of throwing.
+export function describe(buffer: ArrayBuffer): string {
+  return new Describer(buffer).run();
+}
+
+class Describer {
+  private readonly reader: DataReader;
+  private readonly lines: Array<string> = new Array<string>();
+  // remaining children of each open array or map, innermost last; u64 since
+  // a map32 may declare 2 * (2^32 - 1) of them
+  private readonly pending: Array<u64> = new Array<u64>();
+  private start: i32 = 0;
+
+  constructor(buffer: ArrayBuffer) {
+    this.reader = new DataReader(buffer, 0, buffer.byteLength);
+  }
+
+  run(): string {
+    while (this.reader.position < this.reader.byteLength) {
+      if (!this.token()) {
+        return this.lines.join("\n");
+      }
+    }
+    if (this.pending.length > 0) {
+      let missing: u64 = 0;
+      for (let i = 0; i < this.pending.length; i++) {
+        missing += this.pending[i];
+      }
+      this.lines.push(
+        "error: truncated, " + missing.toString() + " more object(s) expected"
+      );
+    }
+    return this.lines.join("\n");
+  }
+
+  private token(): bool {
+    const reader = this.reader;
+    this.start = reader.position;
+    const leadByte = reader.getUint8();
+    if (!isValidPrefix(leadByte)) {
+      this.fail("invalid prefix 0x" + leadByte.toString(16));
+      return false;
+    }
+    const format = formatOf(leadByte);
+    let name = formatName(<u8>format);
+    if (!this.need(headerWidth(leadByte), name)) return false;
+
+    const width = lengthWidth(leadByte);
+    let length: u32 = 0;
+    if (width > 0) {
+      length = width == 1 ? reader.getUint8() : width == 2 ? reader.getUint16() : reader.getUint32();
+      name += " len=" + length.toString();
+    }
+
+    let value = "";
+    switch (format) {
+      case Format.POSITIVE_FIXINT:
+        value = leadByte.toString();
+        break;
+      case Format.NEGATIVE_FIXINT:
+        value = (<i8>leadByte).toString();
+        break;
+      case Format.FIXMAP:
+      case Format.FIXARRAY:
+        name += "(" + (leadByte & Format.FOUR_LEAST_SIG_BITS_IN_BYTE).toString() + ")";
+        break;
+      case Format.FIXSTR:
+        name += "(" + (leadByte & 0x1f).toString() + ")";
+        break;
+      case Format.UINT8:
+        value = reader.getUint8().toString();
+        break;
+      case Format.UINT16:
+        value = reader.getUint16().toString();
+        break;
+      case Format.UINT32:
+        value = reader.getUint32().toString();
+        break;
+      case Format.UINT64:
+        value = reader.getUint64().toString();
+        break;
+      case Format.INT8:
+        value = reader.getInt8().toString();
+        break;
+      case Format.INT16:
+        value = reader.getInt16().toString();
+        break;
+      case Format.INT32:
+        value = reader.getInt32().toString();
+        break;
+      case Format.INT64:
+        value = reader.getInt64().toString();
+        break;
+      case Format.FLOAT32:
+        value = reader.getFloat32().toString();
+        break;
+      case Format.FLOAT64:
+        value = reader.getFloat64().toString();
+        break;
+      case Format.FIXEXT1:
+      case Format.FIXEXT2:
+      case Format.FIXEXT4:
+      case Format.FIXEXT8:
+      case Format.FIXEXT16:
+      case Format.EXT8:
+      case Format.EXT16:
+      case Format.EXT32:
+        name += " type=" + reader.getInt8().toString();
+        break;
+    }
+
+    const size = payloadSize(leadByte, length);
+    if (!this.need(size, name)) return false;
+    switch (format) {
+      case Format.FIXSTR:
+      case Format.STR8:
+      case Format.STR16:
+      case Format.STR32:
+        value = this.readString(<u32>size);
+        break;
+      default:
+        reader.discard(<i32>size);
+    }
+
+    this.emit(name, value);
+    this.advance(childCount(leadByte, length));
+    return true;
+  }
+
+  private readString(length: u32): string {
+    const str = String.UTF8.decode(this.reader.getBytes(<i32>length));
+    if (str.length > MAX_STRING_CHARS) {
+      return '"' + str.substring(0, MAX_STRING_CHARS) + '..."';
+    }
+    return '"' + str + '"';
+  }
+
+  private need(length: u64, name: string): bool {
+    const available = this.reader.byteLength - this.reader.position;
+    if (length <= <u64>available) {
+      return true;
+    }
+    this.fail(
+      "truncated " + name + ", needs " + length.toString() +
+      " byte(s), " + available.toString() + " available"
+    );
+    return false;
+  }
+
+  private advance(children: u64): void {
+    const pending = this.pending;
+    if (pending.length > 0) {
+      pending[pending.length - 1]--;
+    }
+    if (children > 0) {
+      pending.push(children);
+      return;
+    }
+    while (pending.length > 0 && pending[pending.length - 1] == 0) {
+      pending.pop();
+    }
+  }
+
+  private emit(name: string, value: string): void {
+    let line = this.prefix() + name;
+    if (value.length > 0) {
+      line += " " + value;
+    }
+    this.lines.push(line);
+  }
+
+  private fail(message: string): void {
+    this.lines.push(this.prefix() + "error: " + message);
+  }
+
+  private prefix(): string {
+    const start = this.start;
+    const end = this.reader.position;
+    const shown = end - start > MAX_RAW_BYTES ? MAX_RAW_BYTES : end - start;
+    const bytes = new Array<string>();
+    for (let i = 0; i < shown; i++) {
+      bytes.push(load<u8>(this.reader.dataStart + start + i).toString(16).padStart(2, "0"));
+    }
+    let raw = bytes.join(" ");
+    if (end - start > MAX_RAW_BYTES) {
+      raw += " ..";
+    }
+    return (
+      start.toString(16).padStart(6, "0") + "  " +
+      raw.padEnd(RAW_COLUMN_WIDTH, " ") +
+      "  ".repeat(this.pending.length)
+    );
+  }
+}
@@ -1,12 +1,33 @@
 import { DataReader } from "./datareader";
 import { Format } from "./format";
 import { Writer } from "./writer";
+import { ExtensionRegistry } from "./ext";
+import { MsgPackValue } from "./msgpackvalue";
+import { Timestamp, TIMESTAMP_EXT_TYPE, isValidNanoseconds } from "./timestamp";
+import { CANONICAL_NAN32, CANONICAL_NAN64, sortedOrder } from "./canonical";
+import { Sizer } from "./sizer";
+import { validate } from "./validate";
+import { E_INDEXOUTOFRANGE } from "util/error";
 
 export class Encoder implements Writer {
     private reader: DataReader;
+    private readonly canonical: bool;
   
-    constructor(ua: ArrayBuffer) {
-      this.reader = new DataReader(ua, 0, ua.byteLength);
+    constructor(ua: ArrayBuffer, growable: bool = false, canonical: bool = false) {
+      this.reader = new DataReader(ua, 0, ua.byteLength, growable);
+      this.canonical = canonical;
+    }
+
+    static growable(initialCapacity: i32 = 64, canonical: bool = false): Encoder {
+      return new Encoder(new ArrayBuffer(initialCapacity), true, canonical);
+    }
+
+    get length(): i32 {
+      return this.reader.position;
+    }
+
+    toArrayBuffer(): ArrayBuffer {
+      return this.reader.buffer.slice(0, this.reader.position);
     }
   
     writeNil(): void {
@@ -75,11 +96,19 @@ export class Encoder implements Writer {
   
     writeFloat32(value: f32): void {
       this.reader.setUint8(<u8>Format.FLOAT32);
+      if (this.canonical && isNaN(value)) {
+        this.reader.setUint32(CANONICAL_NAN32);
+        return;
+      }
       this.reader.setFloat32(value);
     }
   
     writeFloat64(value: f64): void {
       this.reader.setUint8(<u8>Format.FLOAT64);
+      if (this.canonical && isNaN(value)) {
+        this.reader.setUint64(CANONICAL_NAN64);
+        return;
+      }
       this.reader.setFloat64(value);
     }
   
@@ -118,10 +147,6 @@ export class Encoder implements Writer {
     }
   
     writeByteArray(ab: ArrayBuffer): void {
-      if (ab.byteLength == 0) {
-        this.writeNil();
-        return;
-      }
       this.writeBinLength(ab.byteLength);
       this.reader.setBytes(ab);
     }
@@ -150,6 +175,111 @@ export class Encoder implements Writer {
       }
     }
   
+    // writeStructAsArray starts a record in the positional layout: fieldCount
+    // values follow in declaration order, without field names.
+    writeStructAsArray(fieldCount: u32): void {
+      this.writeArraySize(fieldCount);
+    }
+  
+    // writeFieldTag writes the key of a field in the integer-tagged map
+    // layout, in place of its name.
+    writeFieldTag(tag: u32): void {
+      this.writeUInt32(tag);
+    }
+  
+    writeExtHeader(type: i8, length: u32): void {
+      switch (length) {
+        case 1:
+          this.reader.setUint8(<u8>Format.FIXEXT1);
+          break;
+        case 2:
+          this.reader.setUint8(<u8>Format.FIXEXT2);
+          break;
+        case 4:
+          this.reader.setUint8(<u8>Format.FIXEXT4);
+          break;
+        case 8:
+          this.reader.setUint8(<u8>Format.FIXEXT8);
+          break;
+        case 16:
+          this.reader.setUint8(<u8>Format.FIXEXT16);
+          break;
+        default:
+          if (length <= <u32>u8.MAX_VALUE) {
+            this.reader.setUint8(<u8>Format.EXT8);
+            this.reader.setUint8(<u8>length);
+          } else if (length <= <u32>u16.MAX_VALUE) {
+            this.reader.setUint8(<u8>Format.EXT16);
+            this.reader.setUint16(<u16>length);
+          } else {
+            this.reader.setUint8(<u8>Format.EXT32);
+            this.reader.setUint32(length);
+          }
+      }
+      this.reader.setInt8(type);
+    }
+  
+    writeExt(type: i8, data: ArrayBuffer): void {
+      this.writeExtHeader(type, data.byteLength);
+      this.reader.setBytes(data);
+    }
+  
+    writeExtValue<T>(registry: ExtensionRegistry, value: T): void {
+      const extension = registry.forClass<T>();
+      if (extension === null) {
+        throw new Error("no extension registered for class: id = " + idof<T>().toString());
+      }
+      this.writeExt(extension.type, extension.encode(value));
+    }
+  
+    writeTimestamp(seconds: i64, nanos: u32): void {
+      if (!isValidNanoseconds(nanos)) {
+        throw new RangeError("invalid timestamp: nanoseconds = " + nanos.toString());
+      }
+      if (seconds >> 34 == 0) {
+        if (nanos == 0 && seconds <= <i64>u32.MAX_VALUE) {
+          // timestamp 32
+          this.writeExtHeader(TIMESTAMP_EXT_TYPE, 4);
+          this.reader.setUint32(<u32>seconds);
+        } else {
+          // timestamp 64
+          this.writeExtHeader(TIMESTAMP_EXT_TYPE, 8);
+          this.reader.setUint64((<u64>nanos << 34) | <u64>seconds);
+        }
+      } else {
+        // timestamp 96
+        this.writeExtHeader(TIMESTAMP_EXT_TYPE, 12);
+        this.reader.setUint32(nanos);
+        this.reader.setInt64(seconds);
+      }
+    }
+  
+    writeDate(d: Date): void {
+      const ts = Timestamp.fromDate(d);
+      this.writeTimestamp(ts.seconds, ts.nanoseconds);
+    }
+  
+    writeValue(value: MsgPackValue): void {
+      value.encode(this);
+    }
+
+    // writeRaw copies fragment, which must already be MessagePack-encoded,
+    // into the output as-is. Canonical mode does not apply to its contents.
+    writeRaw(fragment: ArrayBuffer): void {
+      this.reader.setBytes(fragment);
+    }
+
+    // writeRawChecked is writeRaw for fragments that were not produced by
+    // this package: it throws a ValidationError unless fragment holds exactly
+    // one well-formed object.
+    writeRawChecked(fragment: ArrayBuffer): void {
+      const result = validate(fragment);
+      if (result.isErr) {
+        throw result.unwrapErr();
+      }
+      this.writeRaw(fragment);
+    }
+  
     writeArray<T>(a: Array<T>, fn: (writer: Writer, item: T) => void): void {
       this.writeArraySize(a.length);
       for (let i: i32 = 0; i < a.length; i++) {
@@ -173,6 +303,10 @@ export class Encoder implements Writer {
       keyFn: (writer: Writer, key: K) => void,
       valueFn: (writer: Writer, value: V) => void
     ): void {
+      if (this.canonical) {
+        this.writeSortedMap(m, keyFn, valueFn);
+        return;
+      }
       this.writeMapSize(m.size);
       const keys = m.keys();
       for (let i: i32 = 0; i < keys.length; i++) {
@@ -183,6 +317,32 @@ export class Encoder implements Writer {
       }
     }
   
+    private writeSortedMap<K, V>(
+      m: Map<K, V>,
+      keyFn: (writer: Writer, key: K) => void,
+      valueFn: (writer: Writer, value: V) => void
+    ): void {
+      const keys = m.keys();
+      const encodedKeys = new Array<ArrayBuffer>(keys.length);
+      const encodedValues = new Array<ArrayBuffer>(keys.length);
+      for (let i: i32 = 0; i < keys.length; i++) {
+        const key = keys[i];
+        const keyEncoder = Encoder.growable(16, true);
+        keyFn(keyEncoder, key);
+        encodedKeys[i] = keyEncoder.toArrayBuffer();
+        const valueEncoder = Encoder.growable(16, true);
+        valueFn(valueEncoder, m.get(key));
+        encodedValues[i] = valueEncoder.toArrayBuffer();
+      }
+
+      const order = sortedOrder(encodedKeys);
+      this.writeMapSize(keys.length);
+      for (let i: i32 = 0; i < order.length; i++) {
+        this.reader.setBytes(encodedKeys[order[i]]);
+        this.reader.setBytes(encodedValues[order[i]]);
+      }
+    }
+  
     writeNullableMap<K, V>(
       m: Map<K, V> | null,
       keyFn: (writer: Writer, key: K) => void,
@@ -194,4 +354,291 @@ export class Encoder implements Writer {
       }
       this.writeMap(m, keyFn, valueFn);
     }
-  }
\ No newline at end of file
+  }
+// SafeEncoder writes like Encoder into a fixed-size buffer but never throws.
+// The first write that does not fit, or that is invalid, is recorded in error
+// and every write after it is ignored, so a Codec can encode unconditionally
+// and the caller checks error once at the end.
+export class SafeEncoder implements Writer {
+  private readonly encoder: Encoder;
+  // measures each write before it is passed to encoder
+  private readonly sizer: Sizer = new Sizer();
+  private readonly capacity: i32;
+  private failure: Error | null = null;
+  // set by measuring; writes are then only added to measured
+  private measureOnly: bool = false;
+  private measured: i32 = 0;
+
+  constructor(ua: ArrayBuffer) {
+    this.encoder = new Encoder(ua);
+    this.capacity = ua.byteLength;
+  }
+
+  // measuring returns a SafeEncoder that writes nothing and only counts, so
+  // bytesWritten is the size the writes need. Invalid writes are recorded in
+  // error as usual, which a plain Sizer would throw instead.
+  static measuring(): SafeEncoder {
+    const encoder = new SafeEncoder(new ArrayBuffer(0));
+    encoder.measureOnly = true;
+    return encoder;
+  }
+
+  get error(): Error | null {
+    return this.failure;
+  }
+
+  get bytesWritten(): i32 {
+    return this.measureOnly ? this.measured : this.encoder.length;
+  }
+
+  // reserve checks that the write measured by sizer fits in the space left.
+  private reserve(): bool {
+    const length = this.sizer.length;
+    this.sizer.length = 0;
+    if (this.failure !== null) {
+      return false;
+    }
+    if (this.measureOnly) {
+      this.measured += length;
+      return false;
+    }
+    const available = this.capacity - this.encoder.length;
+    if (length > available) {
+      this.failure = new RangeError(
+        E_INDEXOUTOFRANGE + ": needs " + length.toString() + " byte(s), " + available.toString() + " available"
+      );
+      return false;
+    }
+    return true;
+  }
+
+  private fail(err: Error): void {
+    if (this.failure === null) {
+      this.failure = err;
+    }
+  }
+
+  writeNil(): void {
+    this.sizer.writeNil();
+    if (this.reserve()) {
+      this.encoder.writeNil();
+    }
+  }
+
+  writeBool(value: bool): void {
+    this.sizer.writeBool(value);
+    if (this.reserve()) {
+      this.encoder.writeBool(value);
+    }
+  }
+
+  writeInt8(value: i8): void {
+    this.writeInt64(<i64>value);
+  }
+
+  writeInt16(value: i16): void {
+    this.writeInt64(<i64>value);
+  }
+
+  writeInt32(value: i32): void {
+    this.writeInt64(<i64>value);
+  }
+
+  writeInt64(value: i64): void {
+    this.sizer.writeInt64(value);
+    if (this.reserve()) {
+      this.encoder.writeInt64(value);
+    }
+  }
+
+  writeUInt8(value: u8): void {
+    this.writeUInt64(<u64>value);
+  }
+
+  writeUInt16(value: u16): void {
+    this.writeUInt64(<u64>value);
+  }
+
+  writeUInt32(value: u32): void {
+    this.writeUInt64(<u64>value);
+  }
+
+  writeUInt64(value: u64): void {
+    this.sizer.writeUInt64(value);
+    if (this.reserve()) {
+      this.encoder.writeUInt64(value);
+    }
+  }
+
+  writeFloat32(value: f32): void {
+    this.sizer.writeFloat32(value);
+    if (this.reserve()) {
+      this.encoder.writeFloat32(value);
+    }
+  }
+
+  writeFloat64(value: f64): void {
+    this.sizer.writeFloat64(value);
+    if (this.reserve()) {
+      this.encoder.writeFloat64(value);
+    }
+  }
+
+  writeString(value: string): void {
+    const length = String.UTF8.byteLength(value);
+    this.sizer.writeStringLength(length);
+    this.sizer.length += length;
+    if (this.reserve()) {
+      this.encoder.writeString(value);
+    }
+  }
+
+  writeStringLength(length: u32): void {
+    this.sizer.writeStringLength(length);
+    if (this.reserve()) {
+      this.encoder.writeStringLength(length);
+    }
+  }
+
+  writeByteArray(ab: ArrayBuffer): void {
+    this.sizer.writeByteArray(ab);
+    if (this.reserve()) {
+      this.encoder.writeByteArray(ab);
+    }
+  }
+
+  writeBinLength(length: u32): void {
+    this.sizer.writeBinLength(length);
+    if (this.reserve()) {
+      this.encoder.writeBinLength(length);
+    }
+  }
+
+  writeArraySize(length: u32): void {
+    this.sizer.writeArraySize(length);
+    if (this.reserve()) {
+      this.encoder.writeArraySize(length);
+    }
+  }
+
+  writeMapSize(length: u32): void {
+    this.sizer.writeMapSize(length);
+    if (this.reserve()) {
+      this.encoder.writeMapSize(length);
+    }
+  }
+
+  writeStructAsArray(fieldCount: u32): void {
+    this.writeArraySize(fieldCount);
+  }
+
+  writeFieldTag(tag: u32): void {
+    this.writeUInt32(tag);
+  }
+
+  writeExtHeader(type: i8, length: u32): void {
+    this.sizer.writeExtHeader(type, length);
+    if (this.reserve()) {
+      this.encoder.writeExtHeader(type, length);
+    }
+  }
+
+  writeExt(type: i8, data: ArrayBuffer): void {
+    this.sizer.writeExt(type, data);
+    if (this.reserve()) {
+      this.encoder.writeExt(type, data);
+    }
+  }
+
+  writeExtValue<T>(registry: ExtensionRegistry, value: T): void {
+    if (this.failure !== null) {
+      return;
+    }
+    const extension = registry.forClass<T>();
+    if (extension === null) {
+      this.fail(new Error("no extension registered for class: id = " + idof<T>().toString()));
+      return;
+    }
+    this.writeExt(extension.type, extension.encode(value));
+  }
+
+  writeTimestamp(seconds: i64, nanos: u32): void {
+    if (!isValidNanoseconds(nanos)) {
+      this.fail(new RangeError("invalid timestamp: nanoseconds = " + nanos.toString()));
+      return;
+    }
+    this.sizer.writeTimestamp(seconds, nanos);
+    if (this.reserve()) {
+      this.encoder.writeTimestamp(seconds, nanos);
+    }
+  }
+
+  writeDate(d: Date): void {
+    const ts = Timestamp.fromDate(d);
+    this.writeTimestamp(ts.seconds, ts.nanoseconds);
+  }
+
+  writeValue(value: MsgPackValue): void {
+    value.encode(this);
+  }
+
+  writeRaw(fragment: ArrayBuffer): void {
+    this.sizer.writeRaw(fragment);
+    if (this.reserve()) {
+      this.encoder.writeRaw(fragment);
+    }
+  }
+
+  writeRawChecked(fragment: ArrayBuffer): void {
+    const result = validate(fragment);
+    if (result.isErr) {
+      this.fail(result.unwrapErr());
+      return;
+    }
+    this.writeRaw(fragment);
+  }
+
+  writeArray<T>(a: Array<T>, fn: (writer: Writer, item: T) => void): void {
+    this.writeArraySize(a.length);
+    for (let i: i32 = 0; i < a.length && this.failure === null; i++) {
+      fn(this, a[i]);
+    }
+  }
+
+  writeNullableArray<T>(
+    a: Array<T> | null,
+    fn: (writer: Writer, item: T) => void
+  ): void {
+    if (a === null) {
+      this.writeNil();
+      return;
+    }
+    this.writeArray(a, fn);
+  }
+
+  writeMap<K, V>(
+    m: Map<K, V>,
+    keyFn: (writer: Writer, key: K) => void,
+    valueFn: (writer: Writer, value: V) => void
+  ): void {
+    this.writeMapSize(m.size);
+    const keys = m.keys();
+    for (let i: i32 = 0; i < keys.length && this.failure === null; i++) {
+      const key = keys[i];
+      keyFn(this, key);
+      valueFn(this, m.get(key));
+    }
+  }
+
+  writeNullableMap<K, V>(
+    m: Map<K, V> | null,
+    keyFn: (writer: Writer, key: K) => void,
+    valueFn: (writer: Writer, value: V) => void
+  ): void {
+    if (m === null) {
+      this.writeNil();
+      return;
+    }
+    this.writeMap(m, keyFn, valueFn);
+  }
+}
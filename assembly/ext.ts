@@ -0,0 +1,64 @@
+export class ExtHeader {
+  constructor(public type: i8, public length: u32) {}
+}
+
+export class Ext {
+  constructor(public type: i8, public data: ArrayBuffer) {}
+}
+
+export class ExtensionEntry {
+  constructor(public readonly type: i8, public readonly classId: u32) {}
+}
+
+export class Extension<T> extends ExtensionEntry {
+  constructor(
+    type: i8,
+    public readonly encode: (value: T) => ArrayBuffer,
+    public readonly decode: (data: ArrayBuffer) => T
+  ) {
+    super(type, idof<T>());
+  }
+}
+
+export class ExtensionRegistry {
+  private readonly byType: Map<i8, ExtensionEntry> = new Map<i8, ExtensionEntry>();
+  private readonly byClass: Map<u32, ExtensionEntry> = new Map<u32, ExtensionEntry>();
+
+  register<T>(
+    type: i8,
+    encode: (value: T) => ArrayBuffer,
+    decode: (data: ArrayBuffer) => T
+  ): void {
+    if (this.byType.has(type)) {
+      throw new Error("extension already registered: type = " + type.toString());
+    }
+    if (this.byClass.has(idof<T>())) {
+      throw new Error("extension already registered for class: id = " + idof<T>().toString());
+    }
+    const extension = new Extension<T>(type, encode, decode);
+    this.byType.set(type, extension);
+    this.byClass.set(idof<T>(), extension);
+  }
+
+  has(type: i8): bool {
+    return this.byType.has(type);
+  }
+
+  forClass<T>(): Extension<T> | null {
+    if (!this.byClass.has(idof<T>())) {
+      return null;
+    }
+    return changetype<Extension<T>>(this.byClass.get(idof<T>()));
+  }
+
+  forType<T>(type: i8): Extension<T> | null {
+    if (!this.byType.has(type)) {
+      return null;
+    }
+    const entry = this.byType.get(type);
+    if (entry.classId != idof<T>()) {
+      return null;
+    }
+    return changetype<Extension<T>>(entry);
+  }
+}
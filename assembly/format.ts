@@ -41,6 +41,36 @@ export const enum Format {
   NEGATIVE_FIXINT = 0xe0,
 }
 
+export const enum Kind {
+  Nil,
+  Bool,
+  Int,
+  UInt,
+  Float,
+  Str,
+  Bin,
+  Array,
+  Map,
+  Ext,
+}
+
+// formatOf maps a prefix byte to its Format, folding the fixint, fixmap,
+// fixarray and fixstr ranges onto their base values.
+export function formatOf(byte: u8): Format {
+  if (byte >> 7 == 0) {
+    return Format.POSITIVE_FIXINT;
+  } else if ((byte & 0xe0) == Format.NEGATIVE_FIXINT) {
+    return Format.NEGATIVE_FIXINT;
+  } else if ((byte & 0xf0) == Format.FIXMAP) {
+    return Format.FIXMAP;
+  } else if ((byte & 0xf0) == Format.FIXARRAY) {
+    return Format.FIXARRAY;
+  } else if ((byte & 0xe0) == Format.FIXSTR) {
+    return Format.FIXSTR;
+  }
+  return <Format>byte;
+}
+
 export function formatName(byte: u8): string {
   switch(byte) {
     case Format.POSITIVE_FIXINT:
@@ -119,3 +149,123 @@ export function formatName(byte: u8): string {
       return "unknown";
   }
 }
+
+// Value layout
+//
+// The bytes after a prefix byte are a header of headerWidth(prefix) bytes, a
+// payload of payloadSize(prefix, length) bytes and then childCount(prefix,
+// length) nested objects. The header holds the length field of a str, bin,
+// ext, array or map, lengthWidth(prefix) bytes wide, followed by the type
+// byte of an ext; for an int or float it holds the value. length is the value
+// of the length field and is ignored for prefixes without one.
+
+export function isValidPrefix(prefix: u8): bool {
+  // 0xc1 is the only byte the spec never uses
+  return prefix != 0xc1;
+}
+
+export function headerWidth(prefix: u8): i32 {
+  switch (prefix) {
+    case Format.UINT8:
+    case Format.INT8:
+    case Format.STR8:
+    case Format.BIN8:
+    case Format.FIXEXT1:
+    case Format.FIXEXT2:
+    case Format.FIXEXT4:
+    case Format.FIXEXT8:
+    case Format.FIXEXT16:
+      return 1;
+    case Format.UINT16:
+    case Format.INT16:
+    case Format.STR16:
+    case Format.BIN16:
+    case Format.ARRAY16:
+    case Format.MAP16:
+    case Format.EXT8:
+      return 2;
+    case Format.EXT16:
+      return 3;
+    case Format.UINT32:
+    case Format.INT32:
+    case Format.FLOAT32:
+    case Format.STR32:
+    case Format.BIN32:
+    case Format.ARRAY32:
+    case Format.MAP32:
+      return 4;
+    case Format.EXT32:
+      return 5;
+    case Format.UINT64:
+    case Format.INT64:
+    case Format.FLOAT64:
+      return 8;
+  }
+  return 0;
+}
+
+export function lengthWidth(prefix: u8): i32 {
+  switch (prefix) {
+    case Format.STR8:
+    case Format.BIN8:
+    case Format.EXT8:
+      return 1;
+    case Format.STR16:
+    case Format.BIN16:
+    case Format.EXT16:
+    case Format.ARRAY16:
+    case Format.MAP16:
+      return 2;
+    case Format.STR32:
+    case Format.BIN32:
+    case Format.EXT32:
+    case Format.ARRAY32:
+    case Format.MAP32:
+      return 4;
+  }
+  return 0;
+}
+
+export function payloadSize(prefix: u8, length: u32): u64 {
+  switch (formatOf(prefix)) {
+    case Format.FIXSTR:
+      return <u64>(prefix & 0x1f);
+    case Format.STR8:
+    case Format.STR16:
+    case Format.STR32:
+    case Format.BIN8:
+    case Format.BIN16:
+    case Format.BIN32:
+    case Format.EXT8:
+    case Format.EXT16:
+    case Format.EXT32:
+      return <u64>length;
+    case Format.FIXEXT1:
+      return 1;
+    case Format.FIXEXT2:
+      return 2;
+    case Format.FIXEXT4:
+      return 4;
+    case Format.FIXEXT8:
+      return 8;
+    case Format.FIXEXT16:
+      return 16;
+  }
+  return 0;
+}
+
+export function childCount(prefix: u8, length: u32): u64 {
+  switch (formatOf(prefix)) {
+    case Format.FIXARRAY:
+      return <u64>(prefix & Format.FOUR_LEAST_SIG_BITS_IN_BYTE);
+    case Format.FIXMAP:
+      return 2 * <u64>(prefix & Format.FOUR_LEAST_SIG_BITS_IN_BYTE);
+    case Format.ARRAY16:
+    case Format.ARRAY32:
+      return <u64>length;
+    case Format.MAP16:
+    case Format.MAP32:
+      return 2 * <u64>length;
+  }
+  return 0;
+}
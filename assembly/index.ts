@@ -6,3 +6,18 @@ export * from "./codec";
 export * from "./value";
 export * from "./datareader";
 export * from "./result";
+export * from "./ext";
+export * from "./timestamp";
+export * from "./canonical";
+export * from "./msgpackvalue";
+export * from "./format";
+export * from "./json";
+export * from "./describe";
+export * from "./validate";
+export * from "./decodeerror";
+export * from "./rawstring";
+export * from "./sequence";
+export * from "./streaming";
+export * from "./coercion";
+export * from "./typed";
+export * from "./unknownfields";
@@ -0,0 +1,633 @@
+import { DecoderOptions, SafeDecoder } from "./decoder";
+import { Encoder } from "./encoder";
+import { Kind } from "./format";
+import { Result } from "./result";
+
+// Conversion rules
+//
+// MessagePack to JSON:
+// - nil, bool, str, array and map become null, true/false, string, array and object.
+// - int and uint become numbers. Values outside of +/-2^53 cannot be represented
+//   exactly by JSON parsers that use doubles, so they are written as decimal strings.
+// - float32 and float64 become numbers. NaN, Infinity and -Infinity become null.
+// - bin becomes a base64 string (standard alphabet, padded).
+// - ext becomes an object: {"type": <ext type>, "data": "<base64 payload>"}.
+// - Map keys that are not strings are converted to their JSON text, e.g. the int
+//   key 1 becomes "1" and the nil key becomes "null".
+//
+// JSON to MessagePack:
+// - null, true/false, strings, arrays and objects become nil, bool, str, array and map.
+// - Numbers without a fraction or exponent become uint when non-negative and int
+//   when negative. Integers that do not fit into 64 bits become float64.
+// - All other numbers become float64.
+//
+// Both directions reject arrays and maps nested deeper than maxDepth. The Safe
+// variants report malformed input and exceeded limits as an Err; toJSON and
+// fromJSON throw instead.
+
+export const JSON_MAX_DEPTH: u32 = 512;
+
+const TWO_POW_53: u64 = 9007199254740992;
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+export function toJSON(buffer: ArrayBuffer, maxDepth: u32 = JSON_MAX_DEPTH): string {
+  return toJSONSafe(buffer, maxDepth).unwrap();
+}
+
+export function toJSONSafe(buffer: ArrayBuffer, maxDepth: u32 = JSON_MAX_DEPTH): Result<string> {
+  const options = new DecoderOptions();
+  options.maxDepth = maxDepth;
+  const emitter = new JSONEmitter(new SafeDecoder(buffer, options));
+  emitter.emitValue();
+  const error = emitter.error;
+  if (error !== null) {
+    return Result.err<string>(error);
+  }
+  return Result.ok<string>(emitter.toString());
+}
+
+export function fromJSON(json: string, maxDepth: u32 = JSON_MAX_DEPTH): ArrayBuffer {
+  return fromJSONSafe(json, maxDepth).unwrap();
+}
+
+export function fromJSONSafe(json: string, maxDepth: u32 = JSON_MAX_DEPTH): Result<ArrayBuffer> {
+  const encoder = Encoder.growable();
+  const parser = new JSONParser(json, encoder, maxDepth);
+  parser.parse();
+  const error = parser.error;
+  if (error !== null) {
+    return Result.err<ArrayBuffer>(error);
+  }
+  return Result.ok<ArrayBuffer>(encoder.toArrayBuffer());
+}
+
+// JSONEmitter and JSONParser return false from a step that failed and keep
+// the cause in error.
+class JSONEmitter {
+  error: Error | null = null;
+  private readonly parts: Array<string> = new Array<string>();
+
+  constructor(private readonly decoder: SafeDecoder) {}
+
+  emitValue(): bool {
+    const decoder = this.decoder;
+    const kind = decoder.peekKind();
+    if (kind.isErr) {
+      return this.failed(kind.unwrapErr());
+    }
+    switch (kind.unwrap()) {
+      case Kind.Nil:
+        decoder.isNextNil();
+        this.parts.push("null");
+        return true;
+      case Kind.Bool: {
+        const value = decoder.readBool();
+        if (value.isErr) return this.failed(value.unwrapErr());
+        this.parts.push(value.unwrap() ? "true" : "false");
+        return true;
+      }
+      case Kind.UInt: {
+        const result = decoder.readUInt64();
+        if (result.isErr) return this.failed(result.unwrapErr());
+        const value = result.unwrap();
+        this.parts.push(value > TWO_POW_53 ? quote(value.toString()) : value.toString());
+        return true;
+      }
+      case Kind.Int: {
+        const result = decoder.readInt64();
+        if (result.isErr) return this.failed(result.unwrapErr());
+        const value = result.unwrap();
+        const exact = value <= <i64>TWO_POW_53 && value >= -(<i64>TWO_POW_53);
+        this.parts.push(exact ? value.toString() : quote(value.toString()));
+        return true;
+      }
+      case Kind.Float: {
+        const result = decoder.readFloat64();
+        if (result.isErr) return this.failed(result.unwrapErr());
+        const value = result.unwrap();
+        this.parts.push(isFinite(value) ? value.toString() : "null");
+        return true;
+      }
+      case Kind.Str: {
+        const value = decoder.readString();
+        if (value.isErr) return this.failed(value.unwrapErr());
+        this.parts.push(quote(value.unwrap()));
+        return true;
+      }
+      case Kind.Bin: {
+        const value = decoder.readByteArray();
+        if (value.isErr) return this.failed(value.unwrapErr());
+        this.parts.push(quote(base64Encode(value.unwrap())));
+        return true;
+      }
+      case Kind.Array: {
+        const size = decoder.readArraySize();
+        if (size.isErr) return this.failed(size.unwrapErr());
+        const nested = decoder.enterNested();
+        if (nested.isErr) return this.failed(nested.unwrapErr());
+        const count = size.unwrap();
+        this.parts.push("[");
+        for (let i: u32 = 0; i < count; i++) {
+          if (i > 0) {
+            this.parts.push(",");
+          }
+          if (!this.emitValue()) return false;
+        }
+        this.parts.push("]");
+        decoder.exitNested();
+        return true;
+      }
+      case Kind.Map: {
+        const size = decoder.readMapSize();
+        if (size.isErr) return this.failed(size.unwrapErr());
+        const nested = decoder.enterNested();
+        if (nested.isErr) return this.failed(nested.unwrapErr());
+        const count = size.unwrap();
+        this.parts.push("{");
+        for (let i: u32 = 0; i < count; i++) {
+          if (i > 0) {
+            this.parts.push(",");
+          }
+          if (!this.emitKey()) return false;
+          this.parts.push(":");
+          if (!this.emitValue()) return false;
+        }
+        this.parts.push("}");
+        decoder.exitNested();
+        return true;
+      }
+    }
+    // Kind.Ext
+    const ext = decoder.readExt();
+    if (ext.isErr) return this.failed(ext.unwrapErr());
+    const value = ext.unwrap();
+    this.parts.push(
+      '{"type":' + value.type.toString() + ',"data":' + quote(base64Encode(value.data)) + "}"
+    );
+    return true;
+  }
+
+  private emitKey(): bool {
+    const kind = this.decoder.peekKind();
+    if (kind.isOk && kind.unwrap() == Kind.Str) {
+      const key = this.decoder.readString();
+      if (key.isErr) return this.failed(key.unwrapErr());
+      this.parts.push(quote(key.unwrap()));
+      return true;
+    }
+    const start = this.parts.length;
+    if (!this.emitValue()) return false;
+    const text = this.parts.slice(start).join("");
+    this.parts.length = start;
+    this.parts.push(quote(text));
+    return true;
+  }
+
+  private failed(error: Error): bool {
+    this.error = error;
+    return false;
+  }
+
+  toString(): string {
+    return this.parts.join("");
+  }
+}
+
+class JSONParser {
+  error: Error | null = null;
+  private pos: i32 = 0;
+  // element counts of every array and object, in the order their opening
+  // brackets appear, since MessagePack headers precede the elements
+  private counts: Array<u32> = new Array<u32>();
+  private container: i32 = 0;
+
+  constructor(
+    private readonly json: string,
+    private readonly encoder: Encoder,
+    private readonly maxDepth: u32
+  ) {}
+
+  parse(): bool {
+    if (!this.countElements()) return false;
+    if (!this.parseValue()) return false;
+    this.skipWhitespace();
+    if (this.pos != this.json.length) {
+      return this.unexpected();
+    }
+    return true;
+  }
+
+  private parseValue(): bool {
+    this.skipWhitespace();
+    if (this.pos >= this.json.length) {
+      return this.unexpected();
+    }
+    const c = this.json.charCodeAt(this.pos);
+    switch (c) {
+      case 0x7b: // {
+        return this.parseObject();
+      case 0x5b: // [
+        return this.parseArray();
+      case 0x22: { // "
+        const value = this.parseString();
+        if (value === null) return false;
+        this.encoder.writeString(value);
+        return true;
+      }
+      case 0x74: // t
+        if (!this.expectLiteral("true")) return false;
+        this.encoder.writeBool(true);
+        return true;
+      case 0x66: // f
+        if (!this.expectLiteral("false")) return false;
+        this.encoder.writeBool(false);
+        return true;
+      case 0x6e: // n
+        if (!this.expectLiteral("null")) return false;
+        this.encoder.writeNil();
+        return true;
+    }
+    if (c == 0x2d || isDigit(c)) {
+      return this.parseNumber();
+    }
+    return this.unexpected();
+  }
+
+  private parseArray(): bool {
+    this.pos++; // [
+    const count = this.nextCount();
+    this.encoder.writeArraySize(count);
+    this.skipWhitespace();
+    if (count == 0) {
+      return this.expectChar(0x5d); // ]
+    }
+    for (let i: u32 = 0; i < count; i++) {
+      if (!this.parseValue()) return false;
+      this.skipWhitespace();
+      if (!this.expectChar(i + 1 < count ? 0x2c : 0x5d)) return false; // , or ]
+    }
+    return true;
+  }
+
+  private parseObject(): bool {
+    this.pos++; // {
+    const count = this.nextCount();
+    this.encoder.writeMapSize(count);
+    this.skipWhitespace();
+    if (count == 0) {
+      return this.expectChar(0x7d); // }
+    }
+    for (let i: u32 = 0; i < count; i++) {
+      this.skipWhitespace();
+      if (this.pos >= this.json.length || this.json.charCodeAt(this.pos) != 0x22) {
+        return this.unexpected();
+      }
+      const key = this.parseString();
+      if (key === null) return false;
+      this.encoder.writeString(key);
+      this.skipWhitespace();
+      if (!this.expectChar(0x3a)) return false; // :
+      if (!this.parseValue()) return false;
+      this.skipWhitespace();
+      if (!this.expectChar(i + 1 < count ? 0x2c : 0x7d)) return false; // , or }
+    }
+    return true;
+  }
+
+  private nextCount(): u32 {
+    const counts = this.counts;
+    // countElements saw every bracket parseValue reaches, so this only runs
+    // past the end for input parseValue is about to reject
+    return this.container < counts.length ? counts[this.container++] : 0;
+  }
+
+  // countElements scans the whole text once and records the number of direct
+  // children of each array and object, keeping a stack of the open ones. A
+  // container's count is the number of commas directly inside it plus one,
+  // or zero when nothing but whitespace precedes its closing bracket. The
+  // scan does not validate; parseValue rejects anything malformed.
+  private countElements(): bool {
+    const json = this.json;
+    const counts = this.counts;
+    const open = new Array<i32>();
+    let inString = false;
+    for (let i = 0; i < json.length; i++) {
+      const c = json.charCodeAt(i);
+      if (inString) {
+        if (c == 0x5c) {
+          i++; // skip the escaped character
+        } else if (c == 0x22) {
+          inString = false;
+        }
+        continue;
+      }
+      if (isWhitespace(c)) {
+        continue;
+      }
+      const depth = open.length;
+      if (c == 0x5d || c == 0x7d) {
+        if (depth > 0) {
+          open.pop();
+        }
+        continue;
+      }
+      if (depth > 0) {
+        const top = open[depth - 1];
+        if (c == 0x2c) {
+          counts[top]++;
+        } else if (counts[top] == 0) {
+          counts[top] = 1;
+        }
+      }
+      if (c == 0x22) {
+        inString = true;
+      } else if (c == 0x5b || c == 0x7b) {
+        if (<u32>depth >= this.maxDepth) {
+          this.pos = i;
+          return this.fail(
+            "limit exceeded: depth = " + (depth + 1).toString() + "; max = " + this.maxDepth.toString()
+          );
+        }
+        open.push(counts.length);
+        counts.push(0);
+      }
+    }
+    return true;
+  }
+
+  private parseString(): string | null {
+    const json = this.json;
+    this.pos++; // opening quote
+    let start = this.pos;
+    let parts: Array<string> | null = null;
+    while (this.pos < json.length) {
+      const c = json.charCodeAt(this.pos);
+      if (c == 0x22) {
+        const tail = json.substring(start, this.pos);
+        this.pos++;
+        if (parts === null) {
+          return tail;
+        }
+        parts.push(tail);
+        return parts.join("");
+      }
+      if (c < 0x20) {
+        this.unexpected();
+        return null;
+      }
+      if (c != 0x5c) {
+        this.pos++;
+        continue;
+      }
+
+      if (parts === null) {
+        parts = new Array<string>();
+      }
+      parts.push(json.substring(start, this.pos));
+      this.pos++; // backslash
+      if (this.pos >= json.length) {
+        this.unexpected();
+        return null;
+      }
+      const escaped = json.charCodeAt(this.pos);
+      this.pos++;
+      switch (escaped) {
+        case 0x22: // "
+        case 0x5c: // \
+        case 0x2f: // /
+          parts.push(String.fromCharCode(escaped));
+          break;
+        case 0x62: // b
+          parts.push("\b");
+          break;
+        case 0x66: // f
+          parts.push("\f");
+          break;
+        case 0x6e: // n
+          parts.push("\n");
+          break;
+        case 0x72: // r
+          parts.push("\r");
+          break;
+        case 0x74: // t
+          parts.push("\t");
+          break;
+        case 0x75: {
+          // u
+          let code = 0;
+          for (let i = 0; i < 4; i++) {
+            if (this.pos >= json.length) {
+              this.unexpected();
+              return null;
+            }
+            const digit = hexValue(json.charCodeAt(this.pos));
+            if (digit < 0) {
+              this.unexpected();
+              return null;
+            }
+            code = (code << 4) | digit;
+            this.pos++;
+          }
+          parts.push(String.fromCharCode(code));
+          break;
+        }
+        default:
+          this.pos--;
+          this.unexpected();
+          return null;
+      }
+      start = this.pos;
+    }
+    this.unexpected();
+    return null;
+  }
+
+  private parseNumber(): bool {
+    const json = this.json;
+    const start = this.pos;
+    const negative = json.charCodeAt(this.pos) == 0x2d;
+    if (negative) {
+      this.pos++;
+    }
+
+    let magnitude: u64 = 0;
+    let overflow = false;
+    const digitsStart = this.pos;
+    while (this.pos < json.length && isDigit(json.charCodeAt(this.pos))) {
+      const digit = <u64>(json.charCodeAt(this.pos) - 0x30);
+      if (magnitude > (u64.MAX_VALUE - digit) / 10) {
+        overflow = true;
+      }
+      magnitude = magnitude * 10 + digit;
+      this.pos++;
+    }
+    if (this.pos == digitsStart) {
+      return this.unexpected();
+    }
+
+    let integral = true;
+    if (this.pos < json.length && json.charCodeAt(this.pos) == 0x2e) {
+      // .
+      integral = false;
+      this.pos++;
+      if (!this.expectDigits()) return false;
+    }
+    if (this.pos < json.length && (json.charCodeAt(this.pos) | 0x20) == 0x65) {
+      // e or E
+      integral = false;
+      this.pos++;
+      if (this.pos < json.length) {
+        const sign = json.charCodeAt(this.pos);
+        if (sign == 0x2b || sign == 0x2d) {
+          this.pos++;
+        }
+      }
+      if (!this.expectDigits()) return false;
+    }
+
+    if (integral && !overflow) {
+      if (!negative) {
+        this.encoder.writeUInt64(magnitude);
+        return true;
+      }
+      if (magnitude <= <u64>i64.MAX_VALUE + 1) {
+        this.encoder.writeInt64(-(<i64>magnitude));
+        return true;
+      }
+    }
+    this.encoder.writeFloat64(parseFloat(json.substring(start, this.pos)));
+    return true;
+  }
+
+  private expectDigits(): bool {
+    const start = this.pos;
+    while (this.pos < this.json.length && isDigit(this.json.charCodeAt(this.pos))) {
+      this.pos++;
+    }
+    return this.pos != start || this.unexpected();
+  }
+
+  private expectLiteral(literal: string): bool {
+    if (this.json.substr(this.pos, literal.length) != literal) {
+      return this.unexpected();
+    }
+    this.pos += literal.length;
+    return true;
+  }
+
+  private expectChar(c: i32): bool {
+    if (this.pos >= this.json.length || this.json.charCodeAt(this.pos) != c) {
+      return this.unexpected();
+    }
+    this.pos++;
+    return true;
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.json.length && isWhitespace(this.json.charCodeAt(this.pos))) {
+      this.pos++;
+    }
+  }
+
+  private unexpected(): bool {
+    if (this.pos >= this.json.length) {
+      return this.fail("unexpected end of input");
+    }
+    return this.fail("unexpected character");
+  }
+
+  private fail(message: string): bool {
+    this.error = new Error("invalid JSON: " + message + " at position " + this.pos.toString());
+    return false;
+  }
+}
+
+function isDigit(c: i32): bool {
+  return c >= 0x30 && c <= 0x39;
+}
+
+function isWhitespace(c: i32): bool {
+  return c == 0x20 || c == 0x09 || c == 0x0a || c == 0x0d;
+}
+
+function hexValue(c: i32): i32 {
+  if (c >= 0x30 && c <= 0x39) return c - 0x30;
+  if (c >= 0x61 && c <= 0x66) return c - 0x61 + 10;
+  if (c >= 0x41 && c <= 0x46) return c - 0x41 + 10;
+  return -1;
+}
+
+function quote(value: string): string {
+  let needsEscape = false;
+  for (let i = 0; i < value.length; i++) {
+    const c = value.charCodeAt(i);
+    if (c < 0x20 || c == 0x22 || c == 0x5c) {
+      needsEscape = true;
+      break;
+    }
+  }
+  if (!needsEscape) {
+    return '"' + value + '"';
+  }
+
+  const parts = new Array<string>();
+  parts.push('"');
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const c = value.charCodeAt(i);
+    if (c >= 0x20 && c != 0x22 && c != 0x5c) {
+      continue;
+    }
+    parts.push(value.substring(start, i));
+    start = i + 1;
+    switch (c) {
+      case 0x22:
+        parts.push('\\"');
+        break;
+      case 0x5c:
+        parts.push("\\\\");
+        break;
+      case 0x08:
+        parts.push("\\b");
+        break;
+      case 0x0c:
+        parts.push("\\f");
+        break;
+      case 0x0a:
+        parts.push("\\n");
+        break;
+      case 0x0d:
+        parts.push("\\r");
+        break;
+      case 0x09:
+        parts.push("\\t");
+        break;
+      default:
+        parts.push(c < 0x10 ? "\\u000" + c.toString(16) : "\\u00" + c.toString(16));
+    }
+  }
+  parts.push(value.substring(start));
+  parts.push('"');
+  return parts.join("");
+}
+
+function base64Encode(buffer: ArrayBuffer): string {
+  const bytes = Uint8Array.wrap(buffer);
+  const length = bytes.length;
+  const out = new ArrayBuffer(((length + 2) / 3) * 4 * 2);
+  const outStart = changetype<usize>(out);
+  let o: usize = 0;
+  for (let i = 0; i < length; i += 3) {
+    const remaining = length - i;
+    const b0 = <u32>bytes[i];
+    const b1 = remaining > 1 ? <u32>bytes[i + 1] : 0;
+    const b2 = remaining > 2 ? <u32>bytes[i + 2] : 0;
+    const triple = (b0 << 16) | (b1 << 8) | b2;
+    store<u16>(outStart + o, <u16>BASE64_ALPHABET.charCodeAt((triple >> 18) & 0x3f));
+    store<u16>(outStart + o + 2, <u16>BASE64_ALPHABET.charCodeAt((triple >> 12) & 0x3f));
+    store<u16>(outStart + o + 4, remaining > 1 ? <u16>BASE64_ALPHABET.charCodeAt((triple >> 6) & 0x3f) : 0x3d);
+    store<u16>(outStart + o + 6, remaining > 2 ? <u16>BASE64_ALPHABET.charCodeAt(triple & 0x3f) : 0x3d);
+    o += 8;
+  }
+  return String.UTF16.decode(out);
+}
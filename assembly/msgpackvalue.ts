@@ -0,0 +1,153 @@
+import { Kind } from "./format";
+import { Writer } from "./writer";
+
+export abstract class MsgPackValue {
+  constructor(public readonly kind: Kind) {}
+
+  abstract encode(writer: Writer): void;
+
+  get isNil(): bool {
+    return this.kind == Kind.Nil;
+  }
+}
+
+export class MsgPackNil extends MsgPackValue {
+  constructor() {
+    super(Kind.Nil);
+  }
+
+  encode(writer: Writer): void {
+    writer.writeNil();
+  }
+}
+
+export class MsgPackBool extends MsgPackValue {
+  constructor(public value: bool) {
+    super(Kind.Bool);
+  }
+
+  encode(writer: Writer): void {
+    writer.writeBool(this.value);
+  }
+}
+
+export class MsgPackInt extends MsgPackValue {
+  constructor(public value: i64) {
+    super(Kind.Int);
+  }
+
+  encode(writer: Writer): void {
+    writer.writeInt64(this.value);
+  }
+}
+
+export class MsgPackUInt extends MsgPackValue {
+  constructor(public value: u64) {
+    super(Kind.UInt);
+  }
+
+  encode(writer: Writer): void {
+    writer.writeUInt64(this.value);
+  }
+}
+
+export class MsgPackFloat extends MsgPackValue {
+  // single records whether the value was (and will be) encoded as float32
+  constructor(public value: f64, public single: bool = false) {
+    super(Kind.Float);
+  }
+
+  encode(writer: Writer): void {
+    if (this.single) {
+      writer.writeFloat32(<f32>this.value);
+    } else {
+      writer.writeFloat64(this.value);
+    }
+  }
+}
+
+export class MsgPackStr extends MsgPackValue {
+  constructor(public value: string) {
+    super(Kind.Str);
+  }
+
+  encode(writer: Writer): void {
+    writer.writeString(this.value);
+  }
+}
+
+export class MsgPackBin extends MsgPackValue {
+  constructor(public value: ArrayBuffer) {
+    super(Kind.Bin);
+  }
+
+  encode(writer: Writer): void {
+    writer.writeByteArray(this.value);
+  }
+}
+
+export class MsgPackArray extends MsgPackValue {
+  constructor(public items: Array<MsgPackValue> = new Array<MsgPackValue>()) {
+    super(Kind.Array);
+  }
+
+  get length(): i32 {
+    return this.items.length;
+  }
+
+  encode(writer: Writer): void {
+    writer.writeArray(this.items, (writer: Writer, item: MsgPackValue): void => {
+      item.encode(writer);
+    });
+  }
+}
+
+export class MsgPackMap extends MsgPackValue {
+  // Keys are compared by reference; use get() to look up string keys.
+  constructor(
+    public entries: Map<MsgPackValue, MsgPackValue> = new Map<MsgPackValue, MsgPackValue>()
+  ) {
+    super(Kind.Map);
+  }
+
+  get size(): i32 {
+    return this.entries.size;
+  }
+
+  set(key: MsgPackValue, value: MsgPackValue): void {
+    this.entries.set(key, value);
+  }
+
+  get(key: string): MsgPackValue | null {
+    const keys = this.entries.keys();
+    for (let i: i32 = 0; i < keys.length; i++) {
+      const k = keys[i];
+      if (k.kind == Kind.Str && (<MsgPackStr>k).value == key) {
+        return this.entries.get(k);
+      }
+    }
+    return null;
+  }
+
+  encode(writer: Writer): void {
+    writer.writeMap(
+      this.entries,
+      (writer: Writer, key: MsgPackValue): void => {
+        key.encode(writer);
+      },
+      (writer: Writer, value: MsgPackValue): void => {
+        value.encode(writer);
+      }
+    );
+  }
+}
+
+export class MsgPackExt extends MsgPackValue {
+  constructor(public type: i8, public data: ArrayBuffer) {
+    super(Kind.Ext);
+  }
+
+  encode(writer: Writer): void {
+    writer.writeExt(this.type, this.data);
+  }
+}
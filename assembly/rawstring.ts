@@ -0,0 +1,57 @@
+// RawString is an undecoded str payload. bytes views the decoder's buffer,
+// so it stays valid only as long as that buffer is not modified.
+export class RawString {
+  constructor(public readonly bytes: Uint8Array) {}
+
+  // byteLength is the length of the UTF-8 payload, not the string length.
+  get byteLength(): i32 {
+    return this.bytes.length;
+  }
+
+  // equals compares the payload with the UTF-8 encoding of key, encoding
+  // one character at a time so that nothing is allocated.
+  equals(key: string): bool {
+    const ptr = this.bytes.dataStart;
+    const length = this.bytes.length;
+    const chars = key.length;
+    const keyStart = changetype<usize>(key);
+    let j = 0;
+    for (let i = 0; i < chars; i++) {
+      let c = <u32>load<u16>(keyStart + (<usize>i << 1));
+      if (c < 0x80) {
+        if (j >= length || <u32>load<u8>(ptr + j) != c) {
+          return false;
+        }
+        j++;
+        continue;
+      }
+      if (c >= 0xd800 && c < 0xdc00 && i + 1 < chars) {
+        const low = <u32>load<u16>(keyStart + (<usize>(i + 1) << 1));
+        if (low >= 0xdc00 && low < 0xe000) {
+          c = 0x10000 + ((c - 0xd800) << 10) + (low - 0xdc00);
+          i++;
+        }
+      }
+      const size = c < 0x800 ? 2 : c < 0x10000 ? 3 : 4;
+      if (j + size > length) {
+        return false;
+      }
+      const lead = size == 2 ? 0xc0 | (c >> 6) : size == 3 ? 0xe0 | (c >> 12) : 0xf0 | (c >> 18);
+      if (<u32>load<u8>(ptr + j) != lead) {
+        return false;
+      }
+      for (let k = 1; k < size; k++) {
+        const continuation = 0x80 | ((c >> (6 * (size - 1 - k))) & 0x3f);
+        if (<u32>load<u8>(ptr + j + k) != continuation) {
+          return false;
+        }
+      }
+      j += size;
+    }
+    return j == length;
+  }
+
+  toString(): string {
+    return String.UTF8.decodeUnsafe(this.bytes.dataStart, this.bytes.length);
+  }
+}
@@ -21,7 +21,9 @@ export class Result<T> {
     if (this.isOk) {
       return this.ok;
     }
-    throw new Error("called unwrap on Err(E)");
+    // throw only passes on the message of a `new` expression, so the error is
+    // thrown again as an Error carrying its full text
+    throw new Error(this.err.toString());
   }
 
   unwrapErr(): Error {
@@ -0,0 +1,69 @@
+import { Decoder, DecoderOptions, SafeDecoder } from "./decoder";
+import { MsgPackValue } from "./msgpackvalue";
+import { Result } from "./result";
+
+// MessageSequenceReader reads successive top-level objects from a buffer
+// holding several MessagePack messages packed back-to-back. After an error
+// the reader's position is unspecified and no further messages can be read.
+export class MessageSequenceReader {
+  private readonly decoder: SafeDecoder;
+  private readonly options: DecoderOptions | null;
+
+  constructor(
+    private readonly buffer: ArrayBuffer,
+    options: DecoderOptions | null = null,
+    private readonly byteOffset: i32 = 0,
+    byteLength: i32 = buffer.byteLength - byteOffset
+  ) {
+    this.options = options;
+    this.decoder = new SafeDecoder(buffer, options, byteOffset, byteLength);
+  }
+
+  // range reads the messages in byteLength bytes of buffer starting at
+  // byteOffset.
+  static range(
+    buffer: ArrayBuffer,
+    byteOffset: i32,
+    byteLength: i32 = buffer.byteLength - byteOffset,
+    options: DecoderOptions | null = null
+  ): MessageSequenceReader {
+    return new MessageSequenceReader(buffer, options, byteOffset, byteLength);
+  }
+
+  get position(): i32 {
+    return this.decoder.position;
+  }
+
+  hasNext(): bool {
+    return this.decoder.hasMore();
+  }
+
+  // next skips over the next message and returns a view of its bytes.
+  next(): Result<Uint8Array> {
+    const start = this.decoder.position;
+    const result = this.decoder.skip();
+    if (result.isErr) {
+      return Result.err<Uint8Array>(result.unwrapErr());
+    }
+    return Result.ok<Uint8Array>(
+      Uint8Array.wrap(this.buffer, this.byteOffset + start, this.decoder.position - start)
+    );
+  }
+
+  // nextDecoder returns a Decoder over the next message, ready to be passed
+  // to Codec.decode.
+  nextDecoder(): Result<Decoder> {
+    const result = this.next();
+    if (result.isErr) {
+      return Result.err<Decoder>(result.unwrapErr());
+    }
+    const view = result.unwrap();
+    return Result.ok<Decoder>(
+      new Decoder(this.buffer, this.options, view.byteOffset, view.byteLength)
+    );
+  }
+
+  nextValue(): Result<MsgPackValue> {
+    return this.decoder.readValue();
+  }
+}
@@ -1,4 +1,7 @@
 import { Writer } from "./writer";
+import { ExtensionRegistry } from "./ext";
+import { MsgPackValue } from "./msgpackvalue";
+import { Timestamp, TIMESTAMP_EXT_TYPE, isValidNanoseconds } from "./timestamp";
 
 export class Sizer implements Writer {
   length: i32;
@@ -43,21 +46,17 @@ export class Sizer implements Writer {
 
   writeBinLength(length: u32): void {
     if (length <= <u32>u8.MAX_VALUE) {
-      this.length += 1;
-    } else if (length <= <u32>u16.MAX_VALUE) {
       this.length += 2;
+    } else if (length <= <u32>u16.MAX_VALUE) {
+      this.length += 3;
     } else {
-      this.length += 4;
+      this.length += 5;
     }
   }
 
   writeByteArray(ab: ArrayBuffer): void {
-    if (ab.byteLength == 0) {
-      this.length++; //nil byte
-      return;
-    }
     this.writeBinLength(ab.byteLength);
-    this.length += ab.byteLength + 1;
+    this.length += ab.byteLength;
   }
 
   writeMapSize(length: u32): void {
@@ -70,6 +69,68 @@ export class Sizer implements Writer {
     }
   }
 
+  writeStructAsArray(fieldCount: u32): void {
+    this.writeArraySize(fieldCount);
+  }
+
+  writeFieldTag(tag: u32): void {
+    this.writeUInt32(tag);
+  }
+
+  writeExtHeader(type: i8, length: u32): void {
+    if (
+      length == 1 ||
+      length == 2 ||
+      length == 4 ||
+      length == 8 ||
+      length == 16
+    ) {
+      this.length += 2;
+    } else if (length <= <u32>u8.MAX_VALUE) {
+      this.length += 3;
+    } else if (length <= <u32>u16.MAX_VALUE) {
+      this.length += 4;
+    } else {
+      this.length += 6;
+    }
+  }
+
+  writeExt(type: i8, data: ArrayBuffer): void {
+    this.writeExtHeader(type, data.byteLength);
+    this.length += data.byteLength;
+  }
+
+  writeExtValue<T>(registry: ExtensionRegistry, value: T): void {
+    const extension = registry.forClass<T>();
+    if (extension === null) {
+      throw new Error("no extension registered for class: id = " + idof<T>().toString());
+    }
+    this.writeExt(extension.type, extension.encode(value));
+  }
+
+  writeTimestamp(seconds: i64, nanos: u32): void {
+    if (!isValidNanoseconds(nanos)) {
+      throw new RangeError("invalid timestamp: nanoseconds = " + nanos.toString());
+    }
+    if (seconds >> 34 == 0) {
+      if (nanos == 0 && seconds <= <i64>u32.MAX_VALUE) {
+        this.writeExtHeader(TIMESTAMP_EXT_TYPE, 4);
+        this.length += 4;
+      } else {
+        this.writeExtHeader(TIMESTAMP_EXT_TYPE, 8);
+        this.length += 8;
+      }
+    } else {
+      this.writeExtHeader(TIMESTAMP_EXT_TYPE, 12);
+      this.length += 12;
+    }
+  }
+
+  writeDate(d: Date): void {
+    const ts = Timestamp.fromDate(d);
+    this.writeTimestamp(ts.seconds, ts.nanoseconds);
+  }
+
   writeInt8(value: i8): void {
     this.writeInt64(<i64>value);
   }
@@ -123,6 +184,20 @@ export class Sizer implements Writer {
     this.length += 9;
   }
 
+  writeValue(value: MsgPackValue): void {
+    value.encode(this);
+  }
+
+  writeRaw(fragment: ArrayBuffer): void {
+    this.length += fragment.byteLength;
+  }
+
+  // writeRawChecked only measures fragment; it is validated when it is
+  // written by an Encoder.
+  writeRawChecked(fragment: ArrayBuffer): void {
+    this.writeRaw(fragment);
+  }
+
   writeArray<T>(a: Array<T>, fn: (sizer: Writer, item: T) => void): void {
     this.writeArraySize(a.length);
     for (let i: i32 = 0; i < a.length; i++) {
@@ -0,0 +1,152 @@
+import { DecoderOptions, SafeDecoder } from "./decoder";
+import { DecodeError, DecodeErrorKind } from "./decodeerror";
+import { Format } from "./format";
+import { MsgPackValue } from "./msgpackvalue";
+import { Result } from "./result";
+
+export const enum StreamStatus {
+  // A top-level object is complete and available through object and value().
+  Ready,
+  // The buffered bytes end inside an object; feed another chunk.
+  NeedMoreData,
+  // The input is malformed; error holds the reason.
+  Failed,
+}
+
+// StreamingDecoder is a push parser for data arriving in chunks. Chunks are
+// copied into an internal buffer by feed() and next() completes one
+// top-level object at a time, resuming the scan where the previous call ran
+// out of data instead of starting the object over.
+export class StreamingDecoder {
+  private readonly options: DecoderOptions;
+  private data: ArrayBuffer = new ArrayBuffer(64);
+  // bytes of data in use
+  private end: i32 = 0;
+  // start of the object being scanned
+  private start: i32 = 0;
+  // start of the next nested object to scan
+  private scan: i32 = 0;
+  // remaining children of each open array or map, innermost last
+  private readonly pending: Array<u64> = new Array<u64>();
+  private current: ArrayBuffer | null = null;
+  private failure: Error | null = null;
+
+  constructor(options: DecoderOptions | null = null) {
+    this.options = options !== null ? options : new DecoderOptions();
+  }
+
+  // buffered is the number of bytes held for the object not yet complete.
+  get buffered(): i32 {
+    return this.end - this.start;
+  }
+
+  get error(): Error | null {
+    return this.failure;
+  }
+
+  // object is the raw encoding of the object completed by the last next()
+  // that returned Ready.
+  get object(): ArrayBuffer {
+    const current = this.current;
+    if (current === null) {
+      throw new Error("no object is ready");
+    }
+    return current;
+  }
+
+  feed(chunk: ArrayBuffer): void {
+    const length = chunk.byteLength;
+    if (this.start > 0 && this.start >= this.end - this.start) {
+      this.compact();
+    }
+    if (this.end + length > this.data.byteLength) {
+      let capacity = this.data.byteLength << 1;
+      if (capacity < this.end + length) {
+        capacity = this.end + length;
+      }
+      const data = new ArrayBuffer(capacity);
+      memory.copy(changetype<usize>(data), changetype<usize>(this.data), this.end);
+      this.data = data;
+    }
+    memory.copy(changetype<usize>(this.data) + this.end, changetype<usize>(chunk), length);
+    this.end += length;
+  }
+
+  next(): StreamStatus {
+    if (this.failure !== null) {
+      return StreamStatus.Failed;
+    }
+    if (this.scan == this.end) {
+      return StreamStatus.NeedMoreData;
+    }
+
+    const decoder = new SafeDecoder(this.data, this.options, this.scan, this.end - this.scan);
+    const pending = this.pending;
+    do {
+      const itemStart = decoder.position;
+      const result = decoder.getSize();
+      if (result.isErr) {
+        const err = result.unwrapErr();
+        if (err instanceof DecodeError && changetype<DecodeError>(err).kind == DecodeErrorKind.Truncated) {
+          this.scan += itemStart;
+          return StreamStatus.NeedMoreData;
+        }
+        return this.fail(err);
+      }
+
+      if (pending.length > 0) {
+        pending[pending.length - 1]--;
+      }
+      const children = result.unwrap();
+      if (children > 0) {
+        if (<u64>pending.length >= <u64>this.options.maxDepth) {
+          return this.fail(new DecodeError(
+            DecodeErrorKind.LimitExceeded,
+            "limit exceeded: depth = " + (pending.length + 1).toString() + "; max = " + this.options.maxDepth.toString(),
+            <u32>(this.scan + itemStart - this.start),
+            Format.ERROR,
+            Format.ERROR,
+            ""
+          ));
+        }
+        pending.push(children);
+      }
+      while (pending.length > 0 && pending[pending.length - 1] == 0) {
+        pending.pop();
+      }
+      if (pending.length == 0) {
+        const end = this.scan + decoder.position;
+        this.current = this.data.slice(this.start, end);
+        this.start = end;
+        this.scan = end;
+        return StreamStatus.Ready;
+      }
+    } while (decoder.hasMore());
+
+    this.scan += decoder.position;
+    return StreamStatus.NeedMoreData;
+  }
+
+  // value decodes the object completed by the last next() that returned
+  // Ready. next() scans without recursion, but value() builds the tree with
+  // readValue and so returns Err for objects nested deeper than
+  // VALUE_MAX_DEPTH even when options.maxDepth allows them.
+  value(): Result<MsgPackValue> {
+    return new SafeDecoder(this.object, this.options).readValue();
+  }
+
+  private fail(err: Error): StreamStatus {
+    this.failure = err;
+    return StreamStatus.Failed;
+  }
+
+  // compact moves the unconsumed bytes to the front of data.
+  private compact(): void {
+    const start = this.start;
+    const base = changetype<usize>(this.data);
+    memory.copy(base, base + start, this.end - start);
+    this.end -= start;
+    this.scan -= start;
+    this.start = 0;
+  }
+}
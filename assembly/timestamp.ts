@@ -0,0 +1,29 @@
+export const TIMESTAMP_EXT_TYPE: i8 = -1;
+
+const NANOS_PER_SECOND: u32 = 1000000000;
+const NANOS_PER_MILLI: u32 = 1000000;
+
+export class Timestamp {
+  constructor(public seconds: i64, public nanoseconds: u32) {}
+
+  static fromDate(d: Date): Timestamp {
+    const millis = d.getTime();
+    let seconds = millis / 1000;
+    let remainder = millis % 1000;
+    if (remainder < 0) {
+      seconds--;
+      remainder += 1000;
+    }
+    return new Timestamp(seconds, <u32>remainder * NANOS_PER_MILLI);
+  }
+
+  toDate(): Date {
+    return new Date(
+      this.seconds * 1000 + <i64>(this.nanoseconds / NANOS_PER_MILLI)
+    );
+  }
+}
+
+export function isValidNanoseconds(nanos: u32): bool {
+  return nanos < NANOS_PER_SECOND;
+}
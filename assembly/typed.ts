@@ -0,0 +1,167 @@
+import { Decoder, DecoderOptions } from "./decoder";
+import { Encoder } from "./encoder";
+import { Sizer } from "./sizer";
+import { Writer } from "./writer";
+import { MsgPackValue } from "./msgpackvalue";
+
+// encode serializes value by dispatching on its static type: bool, integers,
+// floats, string, ArrayBuffer (bin), Date (timestamp), MsgPackValue, Array,
+// Map and classes implementing Codec, nested arbitrarily. Nullable types encode
+// null as nil.
+export function encode<T>(value: T): ArrayBuffer {
+  const sizer = new Sizer();
+  writeTyped<T>(sizer, value);
+  const buffer = new ArrayBuffer(sizer.length);
+  writeTyped<T>(new Encoder(buffer), value);
+  return buffer;
+}
+
+// DECODE_MAX_DEPTH is the nesting limit decode applies when no options are
+// given. Every array, map and Codec counts as one level; a Codec holding a
+// field of its own type could otherwise recurse as deep as the input goes.
+export const DECODE_MAX_DEPTH: u32 = 512;
+
+// decode is the counterpart of encode. Codec classes are created with
+// instantiate<T>() and must have a constructor without required arguments.
+export function decode<T>(buffer: ArrayBuffer, options: DecoderOptions | null = null): T {
+  if (options === null) {
+    options = new DecoderOptions();
+    options.maxDepth = DECODE_MAX_DEPTH;
+  }
+  return readTyped<T>(new Decoder(buffer, options));
+}
+
+// writeTyped writes value to writer as encode would. It can be used from a
+// hand-written Codec to encode a field without an item callback.
+export function writeTyped<T>(writer: Writer, value: T): void {
+  if (isBoolean<T>()) {
+    writer.writeBool(<bool>value);
+  } else if (isInteger<T>()) {
+    if (isSigned<T>()) {
+      writer.writeInt64(<i64>value);
+    } else {
+      writer.writeUInt64(<u64>value);
+    }
+  } else if (isFloat<T>()) {
+    if (sizeof<T>() == 4) {
+      writer.writeFloat32(<f32>value);
+    } else {
+      writer.writeFloat64(<f64>value);
+    }
+  } else if (isReference<T>()) {
+    if (isNullable<T>()) {
+      if (value === null) {
+        writer.writeNil();
+        return;
+      }
+    }
+    if (isString<T>()) {
+      writer.writeString(changetype<string>(value));
+    } else if (idof<T>() == idof<ArrayBuffer>()) {
+      writer.writeByteArray(changetype<ArrayBuffer>(value));
+    } else if (idof<T>() == idof<Date>()) {
+      writer.writeDate(changetype<Date>(value));
+    } else if (isArray<T>()) {
+      writeArrayTyped(writer, value);
+    } else if (isDefined(value!.keys) && isDefined(value!.set)) {
+      writeMapTyped(writer, value);
+    } else if (value instanceof MsgPackValue) {
+      writer.writeValue(changetype<MsgPackValue>(value));
+    } else if (isDefined(value!.encode)) {
+      value.encode(writer);
+    } else {
+      ERROR("writeTyped: unsupported type");
+    }
+  } else {
+    ERROR("writeTyped: unsupported type");
+  }
+}
+
+// readTyped reads a value of type T from decoder as decode would, within the
+// maxDepth of the decoder's options.
+export function readTyped<T>(decoder: Decoder): T {
+  if (isBoolean<T>()) {
+    return <T>decoder.readBool();
+  } else if (isInteger<T>()) {
+    if (isSigned<T>()) {
+      if (sizeof<T>() == 1) return <T>decoder.readInt8();
+      if (sizeof<T>() == 2) return <T>decoder.readInt16();
+      if (sizeof<T>() == 4) return <T>decoder.readInt32();
+      return <T>decoder.readInt64();
+    } else {
+      if (sizeof<T>() == 1) return <T>decoder.readUInt8();
+      if (sizeof<T>() == 2) return <T>decoder.readUInt16();
+      if (sizeof<T>() == 4) return <T>decoder.readUInt32();
+      return <T>decoder.readUInt64();
+    }
+  } else if (isFloat<T>()) {
+    if (sizeof<T>() == 4) return <T>decoder.readFloat32();
+    return <T>decoder.readFloat64();
+  } else if (isReference<T>()) {
+    if (isNullable<T>()) {
+      if (decoder.isNextNil()) {
+        return changetype<T>(0);
+      }
+    }
+    if (isString<T>()) {
+      return changetype<T>(decoder.readString());
+    } else if (idof<T>() == idof<ArrayBuffer>()) {
+      return changetype<T>(decoder.readByteArray());
+    } else if (idof<T>() == idof<Date>()) {
+      return changetype<T>(decoder.readDate());
+    } else if (isArray<T>()) {
+      const size = decoder.readArraySize();
+      decoder.enterNested();
+      const a = instantiate<T>();
+      for (let i: u32 = 0; i < size; i++) {
+        a.push(readTyped<valueof<T>>(decoder));
+      }
+      decoder.exitNested();
+      return a;
+    } else if (isDefined(changetype<T>(0)!.keys) && isDefined(changetype<T>(0)!.set)) {
+      const m = instantiate<T>();
+      readMapTyped(decoder, m);
+      return m;
+    } else if (idof<T>() == idof<MsgPackValue>()) {
+      return changetype<T>(decoder.readValue());
+    } else if (isDefined(changetype<T>(0)!.decode)) {
+      const value = instantiate<T>();
+      decoder.enterNested();
+      value.decode(decoder);
+      decoder.exitNested();
+      return value;
+    } else {
+      ERROR("readTyped: unsupported type");
+    }
+  } else {
+    ERROR("readTyped: unsupported type");
+  }
+  return unreachable();
+}
+
+function writeArrayTyped<T>(writer: Writer, a: Array<T>): void {
+  writer.writeArraySize(a.length);
+  for (let i: i32 = 0; i < a.length; i++) {
+    writeTyped<T>(writer, a[i]);
+  }
+}
+
+function writeMapTyped<K, V>(writer: Writer, m: Map<K, V>): void {
+  writer.writeMapSize(m.size);
+  const keys = m.keys();
+  for (let i: i32 = 0; i < keys.length; i++) {
+    const key = keys[i];
+    writeTyped<K>(writer, key);
+    writeTyped<V>(writer, m.get(key));
+  }
+}
+
+function readMapTyped<K, V>(decoder: Decoder, m: Map<K, V>): void {
+  const size = decoder.readMapSize();
+  decoder.enterNested();
+  for (let i: u32 = 0; i < size; i++) {
+    const key = readTyped<K>(decoder);
+    m.set(key, readTyped<V>(decoder));
+  }
+  decoder.exitNested();
+}
@@ -0,0 +1,54 @@
+import { Decoder } from "./decoder";
+import { Writer } from "./writer";
+
+// UnknownFields holds the map entries a Codec did not recognize while
+// decoding, as raw bytes, so that re-encoding the Codec passes them through
+// unchanged. A Codec marks the decoder before reading each key and, when the
+// key is unknown, resets to the mark and calls read:
+//
+//   const mark = decoder.mark();
+//   const key = decoder.readString();
+//   if (key == "id") {
+//     this.id = decoder.readUInt32();
+//   } else {
+//     decoder.reset(mark);
+//     this.unknown.read(decoder);
+//   }
+//
+// When encoding, the Codec adds size to its own entry count and calls encode
+// after writing its known fields.
+export class UnknownFields {
+  private readonly keys: Array<ArrayBuffer> = new Array<ArrayBuffer>();
+  private readonly values: Array<ArrayBuffer> = new Array<ArrayBuffer>();
+
+  // size is the number of entries held.
+  get size(): u32 {
+    return <u32>this.keys.length;
+  }
+
+  // read captures the next key and its value from decoder.
+  read(decoder: Decoder): void {
+    const key = decoder.readRaw();
+    const value = decoder.readRaw();
+    this.add(key, value);
+  }
+
+  // add appends an entry from an already encoded key and value.
+  add(key: ArrayBuffer, value: ArrayBuffer): void {
+    this.keys.push(key);
+    this.values.push(value);
+  }
+
+  clear(): void {
+    this.keys.length = 0;
+    this.values.length = 0;
+  }
+
+  // encode writes the entries in the order they were read.
+  encode(writer: Writer): void {
+    for (let i = 0; i < this.keys.length; i++) {
+      writer.writeRaw(this.keys[i]);
+      writer.writeRaw(this.values[i]);
+    }
+  }
+}
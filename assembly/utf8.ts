@@ -0,0 +1,46 @@
+// findInvalidUtf8 returns the index of the first byte that starts an invalid
+// sequence (overlong forms, surrogates and code points above U+10FFFF
+// included), or -1 when the bytes are well-formed UTF-8.
+export function findInvalidUtf8(ptr: usize, length: i32): i32 {
+  let i = 0;
+  while (i < length) {
+    const b0 = <u32>load<u8>(ptr + i);
+    if (b0 < 0x80) {
+      i++;
+      continue;
+    }
+    let size = 0;
+    let min: u32 = 0;
+    let cp: u32 = 0;
+    if ((b0 & 0xe0) == 0xc0) {
+      size = 2;
+      min = 0x80;
+      cp = b0 & 0x1f;
+    } else if ((b0 & 0xf0) == 0xe0) {
+      size = 3;
+      min = 0x800;
+      cp = b0 & 0x0f;
+    } else if ((b0 & 0xf8) == 0xf0) {
+      size = 4;
+      min = 0x10000;
+      cp = b0 & 0x07;
+    } else {
+      return i;
+    }
+    if (i + size > length) {
+      return i;
+    }
+    for (let j = 1; j < size; j++) {
+      const b = <u32>load<u8>(ptr + i + j);
+      if ((b & 0xc0) != 0x80) {
+        return i;
+      }
+      cp = (cp << 6) | (b & 0x3f);
+    }
+    if (cp < min || cp > 0x10ffff || (cp >= 0xd800 && cp <= 0xdfff)) {
+      return i;
+    }
+    i += size;
+  }
+  return -1;
+}
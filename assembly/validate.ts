@@ -0,0 +1,145 @@
+import { DataReader } from "./datareader";
+import {
+  Format,
+  childCount,
+  formatName,
+  formatOf,
+  headerWidth,
+  isValidPrefix,
+  lengthWidth,
+  payloadSize,
+} from "./format";
+import { Result } from "./result";
+import { findInvalidUtf8 } from "./utf8";
+
+export class ValidateOptions {
+  // Accept any number of concatenated objects instead of exactly one.
+  multiple: bool = false;
+  // Check that str payloads are well-formed UTF-8.
+  checkUtf8: bool = true;
+}
+
+export class ValidationError extends Error {
+  constructor(message: string, public readonly offset: u32) {
+    super(message + " at offset " + offset.toString());
+  }
+}
+
+// validate checks the structure of an encoded buffer without decoding it and
+// returns the number of top-level objects, or the first error with its offset.
+export function validate(
+  buffer: ArrayBuffer,
+  options: ValidateOptions | null = null
+): Result<u32> {
+  const opts = options !== null ? options : new ValidateOptions();
+  return new Validator(buffer, opts).run();
+}
+
+class Validator {
+  private readonly reader: DataReader;
+
+  constructor(buffer: ArrayBuffer, private readonly options: ValidateOptions) {
+    this.reader = new DataReader(buffer, 0, buffer.byteLength);
+  }
+
+  run(): Result<u32> {
+    const reader = this.reader;
+    if (reader.byteLength == 0 && !this.options.multiple) {
+      return Result.err<u32>(new ValidationError("empty buffer", 0));
+    }
+
+    let count: u32 = 0;
+    while (reader.position < reader.byteLength) {
+      // objects still to be read for the current top-level object
+      let remaining: u64 = 1;
+      while (remaining > 0) {
+        if (remaining > <u64>(reader.byteLength - reader.position)) {
+          return this.fail(
+            "truncated: " + remaining.toString() + " more object(s) expected"
+          );
+        }
+        remaining--;
+        const children = this.token();
+        if (children.isErr) {
+          return Result.err<u32>(children.unwrapErr());
+        }
+        remaining += children.unwrap();
+      }
+      count++;
+
+      if (!this.options.multiple && reader.position < reader.byteLength) {
+        return this.fail("trailing bytes after object");
+      }
+    }
+    return Result.ok<u32>(count);
+  }
+
+  // token consumes one object header and any scalar payload and returns the
+  // number of nested objects that follow it.
+  private token(): Result<u64> {
+    const reader = this.reader;
+    const start = reader.position;
+    const leadByte = reader.getUint8();
+    if (!isValidPrefix(leadByte)) {
+      return Result.err<u64>(
+        new ValidationError("invalid prefix 0x" + leadByte.toString(16), <u32>start)
+      );
+    }
+
+    const header = headerWidth(leadByte);
+    if (!this.has(header)) {
+      return Result.err<u64>(this.truncated(start, leadByte, header));
+    }
+    const width = lengthWidth(leadByte);
+    let length: u32 = 0;
+    if (width > 0) {
+      length = width == 1 ? reader.getUint8() : width == 2 ? reader.getUint16() : reader.getUint32();
+    }
+    // the value of an int or float and the type byte of an ext
+    reader.discard(header - width);
+
+    const size = payloadSize(leadByte, length);
+    if (!this.has(size)) {
+      return Result.err<u64>(this.truncated(start, leadByte, size));
+    }
+    if (this.options.checkUtf8 && isStr(leadByte)) {
+      const payload = reader.position;
+      const invalid = findInvalidUtf8(reader.dataStart + payload, <i32>size);
+      if (invalid >= 0) {
+        return Result.err<u64>(
+          new ValidationError("invalid UTF-8 in str", <u32>(payload + invalid))
+        );
+      }
+    }
+    reader.discard(<i32>size);
+    return Result.ok<u64>(childCount(leadByte, length));
+  }
+
+  private has(length: u64): bool {
+    return length <= <u64>(this.reader.byteLength - this.reader.position);
+  }
+
+  private truncated(start: i32, leadByte: u8, length: u64): ValidationError {
+    const available = this.reader.byteLength - this.reader.position;
+    return new ValidationError(
+      "truncated " + formatName(<u8>formatOf(leadByte)) + ": needs " + length.toString() +
+      " byte(s), " + available.toString() + " available",
+      <u32>start
+    );
+  }
+
+  private fail(message: string): Result<u32> {
+    return Result.err<u32>(new ValidationError(message, <u32>this.reader.position));
+  }
+}
+
+function isStr(leadByte: u8): bool {
+  switch (formatOf(leadByte)) {
+    case Format.FIXSTR:
+    case Format.STR8:
+    case Format.STR16:
+    case Format.STR32:
+      return true;
+  }
+  return false;
+}
@@ -1,3 +1,6 @@
+import { ExtensionRegistry } from "./ext";
+import { MsgPackValue } from "./msgpackvalue";
+
 export interface Writer {
   writeNil(): void;
   writeBool(value: bool): void;
@@ -17,6 +20,16 @@ export interface Writer {
   writeBinLength(length: u32): void;
   writeArraySize(length: u32): void;
   writeMapSize(length: u32): void;
+  writeStructAsArray(fieldCount: u32): void;
+  writeFieldTag(tag: u32): void;
+  writeExtHeader(type: i8, length: u32): void;
+  writeExt(type: i8, data: ArrayBuffer): void;
+  writeExtValue<T>(registry: ExtensionRegistry, value: T): void;
+  writeTimestamp(seconds: i64, nanos: u32): void;
+  writeDate(d: Date): void;
+  writeValue(value: MsgPackValue): void;
+  writeRaw(fragment: ArrayBuffer): void;
+  writeRawChecked(fragment: ArrayBuffer): void;
   writeArray<T>(a: Array<T>, fn: (writer: Writer, item: T) => void): void;
   writeNullableArray<T>(
     a: Array<T> | null,
@@ -0,0 +1,432 @@
+// Compiler transform that generates Codec methods for classes decorated with
+// @msgpack. Use it with `asc --transform @wapc/as-msgpack/transform`.
+//
+// Each instance field with an explicit type is encoded as one map entry keyed
+// by its name. Fields accept these decorators:
+//
+//   @rename("wire_name")  use a different key on the wire
+//   @skip                 leave the field out of encoding and decoding
+//   @optional             do not require the key when decoding; a nullable
+//                         field that is null is left out when encoding
+//
+// Every other field is required: when its key is absent, decode throws and
+// decodeSafe returns an Error with the message "missing field: <key>". Missing
+// @optional fields keep the value their initializer gave them.
+//
+// The transform adds encode(writer), decode(decoder), decodeSafe(decoder)
+// returning Result<bool>, and static fromDecoder(decoder) and
+// fromSafeDecoder(decoder) factories, which require a constructor without
+// arguments. It also declares the class as implementing Codec, so generated
+// classes can be passed to toArrayBuffer and the other Codec helpers.
+//
+// Field types may be bool, the integer and float types, string, ArrayBuffer,
+// Date, Array<T>, Map<K, V>, other @msgpack classes and nullable forms of
+// these. The file must already import something from this package, which is
+// how the transform finds the path for the names it uses.
+const {
+  CommonFlags,
+  Node,
+  NodeKind,
+  Source,
+  SourceKind,
+  Token,
+  Tokenizer,
+} = require("assemblyscript");
+const { Transform } = require("assemblyscript/cli/transform");
+
+const LIBRARY_NAMES = new Set([
+  "Codec",
+  "Decoder",
+  "Encoder",
+  "Result",
+  "SafeDecoder",
+  "Sizer",
+  "Writer",
+]);
+
+const ALIASES = {
+  Codec: "__msgpack_Codec",
+  Writer: "__msgpack_Writer",
+  Decoder: "__msgpack_Decoder",
+  SafeDecoder: "__msgpack_SafeDecoder",
+  Result: "__msgpack_Result",
+};
+
+const SCALARS = {
+  bool: "Bool",
+  i8: "Int8",
+  i16: "Int16",
+  i32: "Int32",
+  i64: "Int64",
+  u8: "UInt8",
+  u16: "UInt16",
+  u32: "UInt32",
+  u64: "UInt64",
+  f32: "Float32",
+  f64: "Float64",
+  string: "String",
+  ArrayBuffer: "ByteArray",
+  Date: "Date",
+};
+
+const DECORATORS = new Set(["msgpack", "rename", "skip", "optional"]);
+
+class MsgPackTransform extends Transform {
+  afterParse(parser) {
+    for (const source of parser.sources) {
+      if (source.sourceKind != SourceKind.USER && source.sourceKind != SourceKind.USER_ENTRY) {
+        continue;
+      }
+      const classes = source.statements.filter(
+        (statement) => statement.kind == NodeKind.CLASSDECLARATION && findDecorator(statement, "msgpack")
+      );
+      if (classes.length == 0) {
+        continue;
+      }
+      const path = libraryPath(source);
+      if (path === null) {
+        throw new Error(
+          source.normalizedPath + ": @msgpack classes require an import from @wapc/as-msgpack in the same file"
+        );
+      }
+      source.statements.unshift(parseImport(parser, source, path));
+      for (const declaration of classes) {
+        generate(parser, source, declaration);
+      }
+    }
+  }
+}
+
+function findDecorator(node, name) {
+  const decorators = node.decorators || [];
+  return decorators.find((decorator) => decorator.name.kind == NodeKind.IDENTIFIER && decorator.name.text == name) || null;
+}
+
+function stripDecorators(node) {
+  if (node.decorators) {
+    node.decorators = node.decorators.filter(
+      (decorator) => !(decorator.name.kind == NodeKind.IDENTIFIER && DECORATORS.has(decorator.name.text))
+    );
+    if (node.decorators.length == 0) {
+      node.decorators = null;
+    }
+  }
+}
+
+function implementsCodec(declaration) {
+  return (declaration.implementsTypes || []).some(
+    (type) => type.kind == NodeKind.NAMEDTYPE && (type.name.identifier.text == "Codec" || type.name.identifier.text == ALIASES.Codec)
+  );
+}
+
+function libraryPath(source) {
+  for (const statement of source.statements) {
+    if (statement.kind != NodeKind.IMPORT || !statement.declarations) {
+      continue;
+    }
+    if (/as-msgpack/.test(statement.path.value)) {
+      return statement.path.value;
+    }
+    for (const declaration of statement.declarations) {
+      if (LIBRARY_NAMES.has(declaration.foreignName.text)) {
+        return statement.path.value;
+      }
+    }
+  }
+  return null;
+}
+
+function tokenizer(source, text) {
+  return new Tokenizer(new Source(source.sourceKind, source.normalizedPath, text));
+}
+
+function parseImport(parser, source, path) {
+  const names = Object.keys(ALIASES).map((name) => name + " as " + ALIASES[name]);
+  const text = "import { " + names.join(", ") + " } from " + JSON.stringify(path) + ";";
+  const statement = parser.parseTopLevelStatement(tokenizer(source, text));
+  if (statement === null) {
+    throw new Error(source.normalizedPath + ": could not generate the @msgpack import");
+  }
+  return statement;
+}
+
+function generate(parser, source, declaration) {
+  const className = declaration.name.text;
+  const fields = [];
+  for (const member of declaration.members) {
+    if (member.kind != NodeKind.FIELDDECLARATION || (member.flags & CommonFlags.STATIC) != 0) {
+      continue;
+    }
+    const skip = findDecorator(member, "skip") !== null;
+    const rename = findDecorator(member, "rename");
+    const optional = findDecorator(member, "optional") !== null;
+    stripDecorators(member);
+    if (skip) {
+      continue;
+    }
+    if (member.type === null) {
+      throw new Error(className + "." + member.name.text + ": @msgpack fields need an explicit type");
+    }
+    let key = member.name.text;
+    if (rename !== null) {
+      const args = rename.args || [];
+      if (args.length != 1 || args[0].kind != NodeKind.LITERAL || typeof args[0].value != "string") {
+        throw new Error(className + "." + member.name.text + ": @rename takes one string literal");
+      }
+      key = args[0].value;
+    }
+    fields.push({ name: member.name.text, key, type: member.type, optional });
+  }
+  stripDecorators(declaration);
+  if (!implementsCodec(declaration)) {
+    const range = declaration.name.range;
+    const codec = Node.createNamedType(Node.createSimpleTypeName(ALIASES.Codec, range), null, false, range);
+    declaration.implementsTypes = (declaration.implementsTypes || []).concat([codec]);
+  }
+
+  const gen = new Generator(className);
+  const text = [
+    gen.encode(fields),
+    gen.decode(fields),
+    gen.decodeSafe(fields),
+    gen.factories(),
+  ].join("\n");
+  const tn = tokenizer(source, text);
+  while (!tn.skip(Token.ENDOFFILE)) {
+    const member = parser.parseClassMember(tn, declaration);
+    if (member === null) {
+      throw new Error(className + ": could not generate @msgpack methods:\n" + text);
+    }
+    declaration.members.push(member);
+  }
+}
+
+class Generator {
+  constructor(className) {
+    this.className = className;
+    this.counter = 0;
+  }
+
+  temp() {
+    return "r" + (this.counter++).toString();
+  }
+
+  encode(fields) {
+    const required = fields.filter((field) => !(field.optional && field.type.isNullable));
+    const lines = ["encode(writer: " + ALIASES.Writer + "): void {"];
+    lines.push("  let size: u32 = " + required.length + ";");
+    for (const field of fields) {
+      if (field.optional && field.type.isNullable) {
+        lines.push("  if (this." + field.name + " !== null) size++;");
+      }
+    }
+    lines.push("  writer.writeMapSize(size);");
+    for (const field of fields) {
+      const key = "writer.writeString(" + JSON.stringify(field.key) + "); ";
+      if (field.optional && field.type.isNullable) {
+        lines.push("  if (this." + field.name + " !== null) { " + key +
+          this.write(nonNullable(field.type), "this." + field.name + "!", "writer") + " }");
+      } else {
+        lines.push("  " + key + this.write(field.type, "this." + field.name, "writer"));
+      }
+    }
+    lines.push("}");
+    return lines.join("\n");
+  }
+
+  write(type, expr, writer) {
+    if (type.isNullable) {
+      return "if (" + expr + " === null) { " + writer + ".writeNil(); } else { " +
+        this.write(nonNullable(type), expr + "!", writer) + " }";
+    }
+    const name = typeName(type);
+    if (name in SCALARS) {
+      return writer + ".write" + SCALARS[name] + "(" + expr + ");";
+    }
+    const args = type.typeArguments || [];
+    if (name == "Array" && args.length == 1) {
+      return writer + ".writeArray(" + expr + ", (writer: " + ALIASES.Writer + ", item: " + typeText(args[0]) +
+        "): void => { " + this.write(args[0], "item", "writer") + " });";
+    }
+    if (name == "Map" && args.length == 2) {
+      return writer + ".writeMap(" + expr +
+        ", (writer: " + ALIASES.Writer + ", key: " + typeText(args[0]) + "): void => { " +
+        this.write(args[0], "key", "writer") + " }" +
+        ", (writer: " + ALIASES.Writer + ", value: " + typeText(args[1]) + "): void => { " +
+        this.write(args[1], "value", "writer") + " });";
+    }
+    return expr + ".encode(" + writer + ");";
+  }
+
+  decode(fields) {
+    const lines = ["decode(decoder: " + ALIASES.Decoder + "): void {"];
+    const required = fields.filter((field) => !field.optional);
+    for (const field of required) {
+      lines.push("  let has_" + field.name + " = false;");
+    }
+    lines.push("  const size = decoder.readMapSize();");
+    lines.push("  for (let i: u32 = 0; i < size; i++) {");
+    lines.push("    const field = decoder.readStringRaw();");
+    let prefix = "    if";
+    for (const field of fields) {
+      lines.push(prefix + " (field.equals(" + JSON.stringify(field.key) + ")) {");
+      lines.push("      this." + field.name + " = " + this.read(field.type, "decoder") + ";");
+      if (!field.optional) {
+        lines.push("      has_" + field.name + " = true;");
+      }
+      prefix = "    } else if";
+    }
+    lines.push(fields.length > 0 ? "    } else {" : "    {");
+    lines.push("      decoder.skip();");
+    lines.push("    }");
+    lines.push("  }");
+    for (const field of required) {
+      lines.push("  if (!has_" + field.name + ") throw new Error(" +
+        JSON.stringify("missing field: " + field.key) + ");");
+    }
+    lines.push("}");
+    return lines.join("\n");
+  }
+
+  read(type, decoder) {
+    if (type.isNullable) {
+      return decoder + ".isNextNil() ? null : " + this.read(nonNullable(type), decoder);
+    }
+    const name = typeName(type);
+    if (name in SCALARS) {
+      return decoder + ".read" + SCALARS[name] + "()";
+    }
+    const args = type.typeArguments || [];
+    if (name == "Array" && args.length == 1) {
+      return decoder + ".readArray<" + typeText(args[0]) + ">((decoder: " + ALIASES.Decoder + "): " + typeText(args[0]) + " => " +
+        this.read(args[0], "decoder") + ")";
+    }
+    if (name == "Map" && args.length == 2) {
+      return decoder + ".readMap<" + typeText(args[0]) + ", " + typeText(args[1]) + ">(" +
+        "(decoder: " + ALIASES.Decoder + "): " + typeText(args[0]) + " => " + this.read(args[0], "decoder") +
+        ", (decoder: " + ALIASES.Decoder + "): " + typeText(args[1]) + " => " + this.read(args[1], "decoder") + ")";
+    }
+    return name + ".fromDecoder(" + decoder + ")";
+  }
+
+  decodeSafe(fields) {
+    const result = ALIASES.Result;
+    const lines = ["decodeSafe(decoder: " + ALIASES.SafeDecoder + "): " + result + "<bool> {"];
+    const required = fields.filter((field) => !field.optional);
+    for (const field of required) {
+      lines.push("  let has_" + field.name + " = false;");
+    }
+    const size = this.temp();
+    lines.push("  const " + size + " = decoder.readMapSize();");
+    lines.push("  if (" + size + ".isErr) { return " + result + ".err<bool>(" + size + ".unwrapErr()); }");
+    lines.push("  const size = " + size + ".unwrap();");
+    lines.push("  for (let i: u32 = 0; i < size; i++) {");
+    const field = this.temp();
+    lines.push("    const " + field + " = decoder.readStringRaw();");
+    lines.push("    if (" + field + ".isErr) { return " + result + ".err<bool>(" + field + ".unwrapErr()); }");
+    lines.push("    const field = " + field + ".unwrap();");
+    let prefix = "    if";
+    for (const f of fields) {
+      lines.push(prefix + " (field.equals(" + JSON.stringify(f.key) + ")) {");
+      lines.push("      decoder.pushField(" + JSON.stringify(f.key) + ");");
+      lines.push("      " + this.readSafe(f.type, "decoder", "bool", (value) => "this." + f.name + " = " + value + ";"));
+      lines.push("      decoder.popField();");
+      if (!f.optional) {
+        lines.push("      has_" + f.name + " = true;");
+      }
+      prefix = "    } else if";
+    }
+    const skipped = this.temp();
+    lines.push(fields.length > 0 ? "    } else {" : "    {");
+    lines.push("      const " + skipped + " = decoder.skip();");
+    lines.push("      if (" + skipped + ".isErr) { return " + result + ".err<bool>(" + skipped + ".unwrapErr()); }");
+    lines.push("    }");
+    lines.push("  }");
+    for (const f of required) {
+      lines.push("  if (!has_" + f.name + ") { return " + result + ".err<bool>(new Error(" +
+        JSON.stringify("missing field: " + f.key) + ")); }");
+    }
+    lines.push("  return " + result + ".ok<bool>(true);");
+    lines.push("}");
+    return lines.join("\n");
+  }
+
+  // readSafe returns statements that read a value of type with a SafeDecoder,
+  // return the error from a function returning Result<returnType>, and pass
+  // the value expression to onValue.
+  readSafe(type, decoder, returnType, onValue) {
+    const result = ALIASES.Result;
+    if (type.isNullable) {
+      return "if (" + decoder + ".isNextNil()) { " + onValue("null") + " } else { " +
+        this.readSafe(nonNullable(type), decoder, returnType, onValue) + " }";
+    }
+    const name = typeName(type);
+    const args = type.typeArguments || [];
+    let expr;
+    if (name in SCALARS) {
+      expr = decoder + ".read" + SCALARS[name] + "()";
+    } else if (name == "Array" && args.length == 1) {
+      expr = decoder + ".readArray<" + typeText(args[0]) + ">(" + this.readSafeFn(args[0]) + ")";
+    } else if (name == "Map" && args.length == 2) {
+      expr = decoder + ".readMap<" + typeText(args[0]) + ", " + typeText(args[1]) + ">(" +
+        this.readSafeFn(args[0]) + ", " + this.readSafeFn(args[1]) + ")";
+    } else {
+      expr = name + ".fromSafeDecoder(" + decoder + ")";
+    }
+    const r = this.temp();
+    return "const " + r + " = " + expr + "; " +
+      "if (" + r + ".isErr) { return " + result + ".err<" + returnType + ">(" + r + ".unwrapErr()); } " +
+      onValue(r + ".unwrap()");
+  }
+
+  readSafeFn(type) {
+    const text = typeText(type);
+    return "(decoder: " + ALIASES.SafeDecoder + "): " + ALIASES.Result + "<" + text + "> => { " +
+      this.readSafe(type, "decoder", text, (value) => "return " + ALIASES.Result + ".ok<" + text + ">(" + value + ");") +
+      " }";
+  }
+
+  factories() {
+    const name = this.className;
+    const result = ALIASES.Result;
+    return [
+      "static fromDecoder(decoder: " + ALIASES.Decoder + "): " + name + " {",
+      "  const value = new " + name + "();",
+      "  value.decode(decoder);",
+      "  return value;",
+      "}",
+      "static fromSafeDecoder(decoder: " + ALIASES.SafeDecoder + "): " + result + "<" + name + "> {",
+      "  const value = new " + name + "();",
+      "  const decoded = value.decodeSafe(decoder);",
+      "  if (decoded.isErr) { return " + result + ".err<" + name + ">(decoded.unwrapErr()); }",
+      "  return " + result + ".ok<" + name + ">(value);",
+      "}",
+    ].join("\n");
+  }
+}
+
+function typeName(type) {
+  if (type.kind != NodeKind.NAMEDTYPE) {
+    throw new Error("@msgpack fields cannot have function types");
+  }
+  let name = type.name.identifier.text;
+  for (let next = type.name.next; next; next = next.next) {
+    name += "." + next.identifier.text;
+  }
+  return name;
+}
+
+function typeText(type) {
+  let text = typeName(type);
+  const args = type.typeArguments || [];
+  if (args.length > 0) {
+    text += "<" + args.map(typeText).join(", ") + ">";
+  }
+  return type.isNullable ? text + " | null" : text;
+}
+
+function nonNullable(type) {
+  return Object.assign(Object.create(Object.getPrototypeOf(type)), type, { isNullable: false });
+}
+
+module.exports = MsgPackTransform;